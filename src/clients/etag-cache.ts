@@ -0,0 +1,116 @@
+import type { EtagCacheEntry } from "../types/sync-types";
+import type { JsonFileStore } from "../storage/json-file-store";
+
+// Bounds on the serialized response bodies kept in etag-cache.json. Larger
+// bodies, such as big recursive trees or compares with patches, cost more to
+// store than to download again.
+const MAX_CACHE_BYTES = 4 * 1024 * 1024;
+const MAX_ENTRY_BYTES = 512 * 1024;
+
+export type EtagCacheLimits = {
+  maxBytes?: number;
+  maxEntryBytes?: number;
+};
+
+/**
+ * Remembers the ETag and body of GET responses so repeated reads can be sent
+ * as conditional requests. GitHub answers unchanged resources with 304, which
+ * does not count against the rate limit.
+ */
+export class EtagCache {
+  private store: JsonFileStore<Record<string, EtagCacheEntry>> | null;
+  private entries = new Map<string, EtagCacheEntry>();
+  private sizes = new Map<string, number>();
+  private totalBytes = 0;
+  private maxBytes: number;
+  private maxEntryBytes: number;
+  private dirty = false;
+
+  constructor(
+    store: JsonFileStore<Record<string, EtagCacheEntry>> | null = null,
+    limits: EtagCacheLimits = {}
+  ) {
+    this.store = store;
+    this.maxBytes = limits.maxBytes ?? MAX_CACHE_BYTES;
+    this.maxEntryBytes = limits.maxEntryBytes ?? MAX_ENTRY_BYTES;
+  }
+
+  async load(): Promise<void> {
+    const stored = (await this.store?.load()) ?? {};
+    this.entries.clear();
+    this.sizes.clear();
+    this.totalBytes = 0;
+    for (const [url, entry] of Object.entries(stored)) {
+      this.add(url, entry);
+    }
+    this.evict();
+    this.dirty = false;
+  }
+
+  get(url: string): EtagCacheEntry | undefined {
+    const entry = this.entries.get(url);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Keep recently used entries at the end so eviction drops the stalest ones.
+    this.entries.delete(url);
+    this.entries.set(url, entry);
+    return entry;
+  }
+
+  set(url: string, etag: string, json: unknown): void {
+    this.remove(url);
+    if (this.add(url, { etag, json, storedAt: Date.now() })) {
+      this.evict();
+    }
+    this.dirty = true;
+  }
+
+  isDirty(): boolean {
+    return this.dirty;
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty || !this.store) {
+      return;
+    }
+    await this.store.save(this.toJSON());
+    this.dirty = false;
+  }
+
+  toJSON(): Record<string, EtagCacheEntry> {
+    return Object.fromEntries(this.entries);
+  }
+
+  /**
+   * Adds an entry unless its body is over the per-entry limit.
+   */
+  private add(url: string, entry: EtagCacheEntry): boolean {
+    const size = JSON.stringify(entry.json)?.length ?? 0;
+    if (size > this.maxEntryBytes) {
+      return false;
+    }
+    this.entries.set(url, entry);
+    this.sizes.set(url, size);
+    this.totalBytes += size;
+    return true;
+  }
+
+  private remove(url: string): void {
+    if (this.entries.delete(url)) {
+      this.totalBytes -= this.sizes.get(url) ?? 0;
+      this.sizes.delete(url);
+    }
+  }
+
+  private evict(): void {
+    while (this.totalBytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+}
@@ -1,18 +1,65 @@
 import { requestUrl } from "obsidian";
-import type { RemoteIndex } from "../types/sync-types";
+import type {
+  CommitComparison,
+  ComparedCommit,
+  ComparedFile,
+  RateLimitWait,
+  RemoteIndex,
+} from "../types/sync-types";
 import type { GitHubClient } from "../types/interfaces";
+import { DEFAULT_API_BASE_URL, getWebBaseUrl, normalizeApiBaseUrl } from "./github-endpoint";
+import { RateLimitTracker } from "./rate-limit-tracker";
+import type { EtagCache } from "./etag-cache";
+
+const COMPARE_PAGE_SIZE = 100;
+const COMPARE_MAX_PAGES = 30;
+const COMPARE_MAX_FILES = 300;
+
+type GitHubCommit = {
+  sha: string;
+  commit?: { committer?: { date?: string }; author?: { name?: string } };
+  author?: { login?: string } | null;
+};
+
+type TreeEntry = { path: string; sha: string; size?: number; type: string };
+
+export type TreeListingInfo = {
+  truncated: boolean;
+  subtreeRequests: number;
+};
+
+export type GitHubApiClientOptions = {
+  baseUrl?: string;
+  rateLimiter?: RateLimitTracker;
+  etagCache?: EtagCache;
+};
 
 export class GitHubApiClient implements GitHubClient {
   private token: string;
   private owner: string;
   private repo: string;
-  private baseUrl = "https://api.github.com";
+  private baseUrl: string;
   private maxRetries = 2;
+  private rateLimiter: RateLimitTracker;
+  private rateLimitListener: ((wait: RateLimitWait) => void) | null = null;
+  private etagCache: EtagCache | null;
+  private lastTreeListing: TreeListingInfo | null = null;
 
-  constructor(token: string, owner: string, repo: string) {
+  constructor(token: string, owner: string, repo: string, options: GitHubApiClientOptions = {}) {
     this.token = token;
     this.owner = owner;
     this.repo = repo;
+    this.baseUrl = normalizeApiBaseUrl(options.baseUrl ?? DEFAULT_API_BASE_URL);
+    this.rateLimiter = options.rateLimiter ?? new RateLimitTracker();
+    this.etagCache = options.etagCache ?? null;
+  }
+
+  setRateLimitListener(listener: ((wait: RateLimitWait) => void) | null): void {
+    this.rateLimitListener = listener;
+  }
+
+  getRepoWebUrl(): string {
+    return `${getWebBaseUrl(this.baseUrl)}/${this.owner}/${this.repo}`;
   }
 
   async getFile(path: string, ref: string): Promise<{ content: string; sha: string }> {
@@ -20,7 +67,21 @@ export class GitHubApiClient implements GitHubClient {
       ref,
     });
     const response = await this.request(url, { method: "GET" });
-    const data = response.json as { content: string; sha: string };
+    const data = response.json as { content: string; sha: string; encoding?: string };
+    // The contents endpoint leaves `content` empty for files between 1 MB and 100 MB.
+    if (data.encoding === "none") {
+      return this.getBlob(data.sha);
+    }
+    return { content: data.content.replace(/\n/g, ""), sha: data.sha };
+  }
+
+  async getBlob(sha: string): Promise<{ content: string; sha: string }> {
+    const url = this.buildUrl(`/repos/${this.owner}/${this.repo}/git/blobs/${encodeURIComponent(sha)}`);
+    const response = await this.request(url, { method: "GET" });
+    const data = response.json as { content: string; sha: string; encoding?: string };
+    if (data.encoding && data.encoding !== "base64") {
+      return { content: Buffer.from(data.content, "utf8").toString("base64"), sha: data.sha };
+    }
     return { content: data.content.replace(/\n/g, ""), sha: data.sha };
   }
 
@@ -52,34 +113,122 @@ export class GitHubApiClient implements GitHubClient {
   }
 
   async listTree(ref: string): Promise<RemoteIndex> {
-    const url = this.buildUrl(`/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(ref)}`, {
-      recursive: "1",
-    });
-    const response = await this.request(url, { method: "GET" });
-    const data = response.json as {
-      tree: Array<{ path: string; sha: string; size?: number; type: string }>;
-    };
-
+    const root = await this.getTree(ref, true);
     const index: RemoteIndex = {};
-    for (const entry of data.tree) {
+    if (!root.truncated) {
+      this.addBlobs(index, "", root.tree);
+      this.lastTreeListing = { truncated: false, subtreeRequests: 0 };
+      return index;
+    }
+
+    // GitHub caps recursive trees (100,000 entries / 7 MB) and flags the rest as
+    // truncated. Walk the tree level by level instead, trying each subtree
+    // recursively first and only descending further where that is truncated too.
+    let subtreeRequests = 0;
+    const pending: Array<{ sha: string; prefix: string }> = [];
+    const top = await this.getTree(ref, false);
+    this.addBlobs(index, "", top.tree);
+    pending.push(...this.subtrees("", top.tree));
+
+    while (pending.length > 0) {
+      const next = pending.shift();
+      if (!next) {
+        break;
+      }
+
+      subtreeRequests += 1;
+      const subtree = await this.getTree(next.sha, true);
+      if (!subtree.truncated) {
+        this.addBlobs(index, next.prefix, subtree.tree);
+        continue;
+      }
+
+      subtreeRequests += 1;
+      const level = await this.getTree(next.sha, false);
+      this.addBlobs(index, next.prefix, level.tree);
+      pending.push(...this.subtrees(next.prefix, level.tree));
+    }
+
+    this.lastTreeListing = { truncated: true, subtreeRequests };
+    return index;
+  }
+
+  /**
+   * Describes how the most recent listTree call built its result.
+   */
+  getLastTreeListing(): TreeListingInfo | null {
+    return this.lastTreeListing;
+  }
+
+  /**
+   * Returns the blob SHA of a file on a ref, or null if there is no such file.
+   * Lists the file's folder instead of downloading its content.
+   */
+  async getBlobSha(path: string, ref: string): Promise<string | null> {
+    const slash = path.lastIndexOf("/");
+    const folder = slash === -1 ? "" : path.slice(0, slash);
+    const name = path.slice(slash + 1);
+    const url = this.buildUrl(
+      `/repos/${this.owner}/${this.repo}/contents/${this.encodePath(folder)}`,
+      { ref }
+    );
+    try {
+      const response = await this.request(url, { method: "GET" });
+      const entries = response.json as Array<{ name: string; type: string; sha: string }>;
+      if (!Array.isArray(entries)) {
+        return null;
+      }
+      return entries.find((entry) => entry.type === "file" && entry.name === name)?.sha ?? null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes("404") || this.isEmptyRepoError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async getTree(
+    treeish: string,
+    recursive: boolean
+  ): Promise<{ tree: TreeEntry[]; truncated: boolean }> {
+    const url = this.buildUrl(
+      `/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(treeish)}`,
+      recursive ? { recursive: "1" } : undefined
+    );
+    const response = await this.request(url, { method: "GET", cache: true });
+    const data = response.json as { tree: TreeEntry[]; truncated?: boolean };
+    return { tree: data.tree, truncated: data.truncated === true };
+  }
+
+  private addBlobs(index: RemoteIndex, prefix: string, entries: TreeEntry[]): void {
+    for (const entry of entries) {
       if (entry.type !== "blob") {
         continue;
       }
 
-      index[entry.path] = {
-        path: entry.path,
+      const path = prefix ? `${prefix}/${entry.path}` : entry.path;
+      index[path] = {
+        path,
         sha: entry.sha,
         size: entry.size ?? 0,
         lastCommitTime: 0,
       };
     }
+  }
 
-    return index;
+  private subtrees(prefix: string, entries: TreeEntry[]): Array<{ sha: string; prefix: string }> {
+    return entries
+      .filter((entry) => entry.type === "tree")
+      .map((entry) => ({
+        sha: entry.sha,
+        prefix: prefix ? `${prefix}/${entry.path}` : entry.path,
+      }));
   }
 
   async getCommitSha(branch: string): Promise<string> {
     const url = this.buildUrl(`/repos/${this.owner}/${this.repo}/commits/${encodeURIComponent(branch)}`);
-    const response = await this.request(url, { method: "GET" });
+    const response = await this.request(url, { method: "GET", cache: true });
     const data = response.json as { sha: string };
     return data.sha;
   }
@@ -87,7 +236,7 @@ export class GitHubApiClient implements GitHubClient {
   async getCommitInfo(branch: string): Promise<{ sha: string; date: string }> {
     const url = this.buildUrl(`/repos/${this.owner}/${this.repo}/commits/${encodeURIComponent(branch)}`);
     try {
-      const response = await this.request(url, { method: "GET" });
+      const response = await this.request(url, { method: "GET", cache: true });
       const data = response.json as {
         sha: string;
         commit: { committer?: { date?: string } };
@@ -109,7 +258,7 @@ export class GitHubApiClient implements GitHubClient {
     permissions?: { push?: boolean; pull?: boolean };
   }> {
     const url = this.buildUrl(`/repos/${this.owner}/${this.repo}`);
-    const response = await this.request(url, { method: "GET" });
+    const response = await this.request(url, { method: "GET", cache: true });
     const data = response.json as {
       private: boolean;
       permissions?: { push?: boolean; pull?: boolean };
@@ -189,60 +338,156 @@ export class GitHubApiClient implements GitHubClient {
     });
   }
 
-  async compareCommits(
-    base: string,
-    head: string
-  ): Promise<{
-    files: Array<{ filename: string; status: string; previous_filename?: string; sha?: string }>;
-    headCommitDate: string;
-  }> {
+  async getCommitFiles(
+    sha: string
+  ): Promise<{ sha: string; date: string; author?: string; files: string[] }> {
+    const url = this.buildUrl(`/repos/${this.owner}/${this.repo}/commits/${encodeURIComponent(sha)}`);
+    const response = await this.request(url, { method: "GET" });
+    const data = response.json as GitHubCommit & { files?: Array<{ filename: string }> };
+    return {
+      ...this.toComparedCommit(data),
+      files: (data.files ?? []).map((file) => file.filename),
+    };
+  }
+
+  async getLastCommitForPath(path: string, ref: string): Promise<ComparedCommit | null> {
+    const url = this.buildUrl(`/repos/${this.owner}/${this.repo}/commits`, {
+      path,
+      sha: ref,
+      per_page: "1",
+    });
+    const response = await this.request(url, { method: "GET", cache: true });
+    const data = response.json as GitHubCommit[];
+    return data.length > 0 ? this.toComparedCommit(data[0]) : null;
+  }
+
+  /**
+   * Compares two commits, paging through the commit list. GitHub returns the
+   * changed files only on the first page and caps them at 300 for the whole
+   * comparison, so `complete` is false whenever either list may be cut short.
+   */
+  async compareCommits(base: string, head: string): Promise<CommitComparison> {
     if (!base || !head) {
-      return { files: [], headCommitDate: new Date(0).toISOString() };
+      return this.emptyComparison();
     }
-    const url = this.buildUrl(
-      `/repos/${this.owner}/${this.repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`
-    );
+    const path = `/repos/${this.owner}/${this.repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
     try {
-      const response = await this.request(url, { method: "GET" });
-      const data = response.json as {
-        files?: Array<{ filename: string; status: string; previous_filename?: string; sha?: string }>;
-        commits?: Array<{ commit?: { committer?: { date?: string } } }>;
-      };
+      let status: CommitComparison["status"] = "identical";
+      let files: ComparedFile[] = [];
+      const commits: ComparedCommit[] = [];
+      let totalCommits = 0;
+      let page = 1;
+      while (page <= COMPARE_MAX_PAGES) {
+        const url = this.buildUrl(path, {
+          per_page: String(COMPARE_PAGE_SIZE),
+          page: String(page),
+        });
+        const response = await this.request(url, { method: "GET", cache: true });
+        const data = response.json as {
+          status?: CommitComparison["status"];
+          total_commits?: number;
+          files?: ComparedFile[];
+          commits?: GitHubCommit[];
+        };
 
-      const lastCommit =
-        data.commits && data.commits.length > 0 ? data.commits[data.commits.length - 1] : null;
+        if (page === 1) {
+          status = data.status ?? status;
+          files = data.files ?? [];
+        }
+        totalCommits = data.total_commits ?? totalCommits;
+        const pageCommits = data.commits ?? [];
+        for (const commit of pageCommits) {
+          commits.push(this.toComparedCommit(commit));
+        }
+
+        if (pageCommits.length < COMPARE_PAGE_SIZE || commits.length >= totalCommits) {
+          break;
+        }
+        page += 1;
+      }
+
+      const lastCommit = commits.length > 0 ? commits[commits.length - 1] : null;
       return {
-        files: data.files ?? [],
-        headCommitDate: lastCommit?.commit?.committer?.date ?? new Date(0).toISOString(),
+        status,
+        files,
+        commits,
+        totalCommits,
+        headCommitDate: lastCommit?.date ?? new Date(0).toISOString(),
+        complete: files.length < COMPARE_MAX_FILES && commits.length >= totalCommits,
       };
     } catch (error) {
       if (this.isEmptyRepoError(error)) {
-        return { files: [], headCommitDate: new Date(0).toISOString() };
+        return this.emptyComparison();
       }
       throw error;
     }
   }
 
-  private async request(url: string, init: { method: string; body?: string }): Promise<{
+  private toComparedCommit(commit: GitHubCommit): ComparedCommit {
+    return {
+      sha: commit.sha,
+      date: commit.commit?.committer?.date ?? new Date(0).toISOString(),
+      author: commit.author?.login ?? commit.commit?.author?.name,
+    };
+  }
+
+  private emptyComparison(): CommitComparison {
+    return {
+      status: "identical",
+      files: [],
+      commits: [],
+      totalCommits: 0,
+      headCommitDate: new Date(0).toISOString(),
+      complete: true,
+    };
+  }
+
+  private async request(
+    url: string,
+    init: { method: string; body?: string; cache?: boolean }
+  ): Promise<{
     status: number;
     json: unknown;
     headers: Record<string, string>;
   }> {
+    const useCache = init.method === "GET" && init.cache === true && this.etagCache !== null;
+    const cached = useCache ? this.etagCache?.get(url) : undefined;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.token}`,
+      Accept: "application/vnd.github+json",
+      "Content-Type": "application/json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+    if (cached) {
+      headers["If-None-Match"] = cached.etag;
+    }
+
     let attempt = 0;
     while (attempt <= this.maxRetries) {
+      await this.waitForRateLimit();
+
       const response = await requestUrl({
         url,
         method: init.method as "GET" | "POST" | "PUT" | "DELETE" | "PATCH",
-        headers: {
-          Authorization: `Bearer ${this.token}`,
-          Accept: "application/vnd.github+json",
-          "Content-Type": "application/json",
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
+        headers,
         body: init.body,
+        throw: false,
       });
+      this.rateLimiter.update(response.headers);
+
+      if (response.status === 304 && cached) {
+        return {
+          status: 200,
+          json: cached.json,
+          headers: response.headers,
+        };
+      }
 
       if (response.status >= 200 && response.status < 300) {
+        const etag = this.readHeader(response.headers, "etag");
+        if (useCache && etag && this.etagCache) {
+          this.etagCache.set(url, etag, response.json);
+        }
         return {
           status: response.status,
           json: response.json,
@@ -250,14 +495,40 @@ export class GitHubApiClient implements GitHubClient {
         };
       }
 
-      const shouldRetry = this.shouldRetry(response.status, attempt);
       if (response.status === 409) {
         throw new Error(`GitHub API conflict (409): ${response.text}`);
       }
 
+      const rateLimitKind = this.rateLimiter.classify(
+        response.status,
+        response.headers,
+        response.text
+      );
+      if (rateLimitKind) {
+        if (attempt >= this.maxRetries) {
+          throw new Error(
+            `GitHub API ${rateLimitKind} rate limit exceeded (${response.status}): ${response.text}`
+          );
+        }
+        // The wait itself happens before the next attempt, see waitForRateLimit.
+        this.rateLimiter.recordLimited(rateLimitKind, response.headers);
+        attempt += 1;
+        continue;
+      }
+
+      if (response.status === 403) {
+        throw new Error(
+          `GitHub API permission denied (403) for ${this.getRepoWebUrl()}: ${response.text}`
+        );
+      }
+
+      const shouldRetry = this.shouldRetry(response.status, attempt);
       if (!shouldRetry) {
         if (response.status === 401) {
-          throw new Error(`GitHub authentication failed (401). Please check your token has the correct permissions (repo scope for private repositories).`);
+          throw new Error(`GitHub authentication failed (401) for ${this.getRepoWebUrl()}. Please check your token has the correct permissions (repo scope for private repositories).`);
+        }
+        if (response.status === 404) {
+          throw new Error(`GitHub API error 404 for ${this.getRepoWebUrl()}: ${response.text}`);
         }
         throw new Error(`GitHub API error ${response.status}: ${response.text}`);
       }
@@ -296,16 +567,30 @@ export class GitHubApiClient implements GitHubClient {
       return false;
     }
 
-    if ([429, 500, 502, 503, 504].includes(status)) {
+    if ([500, 502, 503, 504].includes(status)) {
       return true;
     }
 
-    if (status === 403) {
-      // Rate limit - will be handled by retry-after
-      return true;
+    return false;
+  }
+
+  private readHeader(headers: Record<string, string>, name: string): string | null {
+    for (const [key, value] of Object.entries(headers ?? {})) {
+      if (key.toLowerCase() === name) {
+        return value;
+      }
     }
+    return null;
+  }
 
-    return false;
+  private async waitForRateLimit(): Promise<void> {
+    const wait = this.rateLimiter.getWait();
+    if (!wait) {
+      return;
+    }
+
+    this.rateLimitListener?.(wait);
+    await this.sleep(wait.waitMs);
   }
 
   private getRetryDelayMs(status: number, attempt: number): number {
@@ -0,0 +1,66 @@
+export const DEFAULT_API_BASE_URL = "https://api.github.com";
+
+const GITHUB_WEB_URL = "https://github.com";
+const ENTERPRISE_API_PATH = "/api/v3";
+
+/**
+ * Normalizes a user-supplied API endpoint.
+ * Accepts either the API root (`https://ghe.example.com/api/v3`) or the bare
+ * GitHub Enterprise Server host (`https://ghe.example.com`), which gets the
+ * `/api/v3` path appended. Throws when the value is not an http(s) URL.
+ */
+export function normalizeApiBaseUrl(input: string): string {
+  const trimmed = input.trim();
+  if (trimmed === "") {
+    return DEFAULT_API_BASE_URL;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid GitHub API URL: ${trimmed}`);
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`GitHub API URL must use http or https: ${trimmed}`);
+  }
+
+  if (url.search || url.hash) {
+    throw new Error(`GitHub API URL must not contain a query or fragment: ${trimmed}`);
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (host === "github.com" || host === "api.github.com") {
+    return DEFAULT_API_BASE_URL;
+  }
+
+  const path = url.pathname.replace(/\/+$/, "");
+  return `${url.origin}${path === "" ? ENTERPRISE_API_PATH : path}`;
+}
+
+export function isValidApiBaseUrl(input: string): boolean {
+  try {
+    normalizeApiBaseUrl(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the web (HTML) root that belongs to an API root, used for links in
+ * user-facing messages.
+ */
+export function getWebBaseUrl(apiBaseUrl: string): string {
+  const normalized = normalizeApiBaseUrl(apiBaseUrl);
+  if (normalized === DEFAULT_API_BASE_URL) {
+    return GITHUB_WEB_URL;
+  }
+
+  const url = new URL(normalized);
+  const path = url.pathname.endsWith(ENTERPRISE_API_PATH)
+    ? url.pathname.slice(0, -ENTERPRISE_API_PATH.length)
+    : "";
+  return `${url.origin}${path}`;
+}
@@ -0,0 +1,112 @@
+import type { RateLimitKind, RateLimitWait } from "../types/sync-types";
+
+// GitHub asks clients to wait at least a minute after a secondary rate limit
+// when the response carries no Retry-After header.
+const SECONDARY_DEFAULT_WAIT_MS = 60 * 1000;
+const RESET_MARGIN_MS = 1000;
+
+/**
+ * Tracks the GitHub REST API budget from response headers. One instance is
+ * shared by every client the plugin creates, so a pause learned during a sync
+ * also applies to conflict resolution requests made right after it.
+ */
+export class RateLimitTracker {
+  private remaining: number | null = null;
+  private resetAt = 0;
+  private blockedUntil = 0;
+  private blockedKind: RateLimitKind = "primary";
+
+  update(headers: Record<string, string>): void {
+    const remaining = this.readNumber(headers, "x-ratelimit-remaining");
+    const reset = this.readNumber(headers, "x-ratelimit-reset");
+    if (remaining !== null) {
+      this.remaining = remaining;
+    }
+    if (reset !== null) {
+      this.resetAt = reset * 1000;
+    }
+  }
+
+  /**
+   * Returns the pause required before the next request, or null when the
+   * budget allows sending it right away.
+   */
+  getWait(now = Date.now()): RateLimitWait | null {
+    if (this.blockedUntil > now) {
+      return {
+        kind: this.blockedKind,
+        waitMs: this.blockedUntil - now,
+        resumeAt: this.blockedUntil,
+      };
+    }
+
+    if (this.remaining === 0 && this.resetAt > now) {
+      const resumeAt = this.resetAt + RESET_MARGIN_MS;
+      return { kind: "primary", waitMs: resumeAt - now, resumeAt };
+    }
+
+    return null;
+  }
+
+  /**
+   * Classifies a failed response. 403 is only a rate limit when GitHub says so
+   * through the headers or body; otherwise it is a permissions error.
+   */
+  classify(status: number, headers: Record<string, string>, body: string): RateLimitKind | null {
+    if (status !== 403 && status !== 429) {
+      return null;
+    }
+
+    if (this.readNumber(headers, "x-ratelimit-remaining") === 0) {
+      return "primary";
+    }
+
+    if (this.readHeader(headers, "retry-after") !== null) {
+      return "secondary";
+    }
+
+    if (/secondary rate limit|abuse detection/i.test(body)) {
+      return "secondary";
+    }
+
+    return status === 429 ? "secondary" : null;
+  }
+
+  /**
+   * Records a rate-limited response so the next request waits for the window
+   * GitHub asked for.
+   */
+  recordLimited(kind: RateLimitKind, headers: Record<string, string>, now = Date.now()): void {
+    this.update(headers);
+    const retryAfter = this.readNumber(headers, "retry-after");
+    let resumeAt: number;
+    if (retryAfter !== null) {
+      resumeAt = now + retryAfter * 1000;
+    } else if (kind === "primary") {
+      resumeAt = Math.max(this.resetAt + RESET_MARGIN_MS, now);
+    } else {
+      resumeAt = now + SECONDARY_DEFAULT_WAIT_MS;
+    }
+
+    this.blockedKind = kind;
+    this.blockedUntil = Math.max(this.blockedUntil, resumeAt);
+  }
+
+  private readNumber(headers: Record<string, string>, name: string): number | null {
+    const value = this.readHeader(headers, name);
+    if (value === null) {
+      return null;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  private readHeader(headers: Record<string, string>, name: string): string | null {
+    for (const [key, value] of Object.entries(headers ?? {})) {
+      if (key.toLowerCase() === name) {
+        return value;
+      }
+    }
+    return null;
+  }
+}
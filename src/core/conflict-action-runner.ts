@@ -1,12 +1,15 @@
 import { normalizePath, TFile, type App } from "obsidian";
 import type { ConflictRecord, SyncConfig } from "../types/sync-types";
 import type { GitHubClient } from "../types/interfaces";
+import { PathMapper } from "./path-mapper";
+import { hasConflictMarkers } from "./text-merge";
 
 export type ConflictAction = "keepLocal" | "keepRemote" | "keepBoth";
 
 export class ConflictActionRunner {
   private app: App;
   private client: GitHubClient;
+  private pathMapper = new PathMapper();
 
   constructor(app: App, client: GitHubClient) {
     this.app = app;
@@ -14,6 +17,8 @@ export class ConflictActionRunner {
   }
 
   async resolve(record: ConflictRecord, action: ConflictAction, config: SyncConfig): Promise<void> {
+    // Records are keyed by vault path; requests to GitHub use the mapped repo path.
+    this.pathMapper = new PathMapper(config.pathMappings);
     if (action === "keepLocal") {
       await this.applyPreferLocal(record, config);
       return;
@@ -33,6 +38,13 @@ export class ConflictActionRunner {
       return;
     }
 
+    // The local side of a markers conflict is only ready once the markers are gone.
+    if (record.policy === "markers" && (await this.hasLocalConflictMarkers(record.path))) {
+      throw new Error(
+        `${record.path} still contains conflict markers. Remove them before keeping the local version.`
+      );
+    }
+
     await this.pushLocal(record.path, config.branch);
   }
 
@@ -42,22 +54,22 @@ export class ConflictActionRunner {
       return;
     }
 
-    await this.pullRemote(record.path, config.branch);
+    await this.pullRemote(record, config.branch);
   }
 
   private async applyKeepBoth(record: ConflictRecord, config: SyncConfig): Promise<void> {
     if (record.reason === "local-missing-remote") {
-      await this.pullRemote(record.path, config.branch);
+      await this.pullRemote(record, config.branch);
       return;
     }
     const conflictPath = this.nextConflictPath(record.path, "conflict-manual");
     if (record.reason === "modify-modify") {
-      await this.pullRemoteCopy(record.path, conflictPath, config.branch);
+      await this.pullRemoteCopy(record, conflictPath, config.branch);
       return;
     }
 
     if (record.reason === "delete-modify-local") {
-      await this.pullRemoteCopy(record.path, conflictPath, config.branch);
+      await this.pullRemoteCopy(record, conflictPath, config.branch);
       return;
     }
 
@@ -66,9 +78,18 @@ export class ConflictActionRunner {
     }
   }
 
-  private async pullRemote(path: string, branch: string): Promise<void> {
-    const normalized = normalizePath(path);
-    const { content } = await this.client.getFile(normalized, branch);
+  /**
+   * Downloads the current remote side of a conflict. The blob SHA recorded with
+   * the conflict is not used, since the remote may have changed since.
+   */
+  private async downloadRemote(record: ConflictRecord, branch: string): Promise<string> {
+    const { content } = await this.client.getFile(this.pathMapper.requireRepo(record.path), branch);
+    return content;
+  }
+
+  private async pullRemote(record: ConflictRecord, branch: string): Promise<void> {
+    const normalized = normalizePath(record.path);
+    const content = await this.downloadRemote(record, branch);
     const buffer = Buffer.from(content, "base64");
     await this.ensureParentFolder(normalized);
     const existing = this.app.vault.getAbstractFileByPath(normalized);
@@ -80,9 +101,12 @@ export class ConflictActionRunner {
     await this.app.vault.createBinary(normalized, buffer);
   }
 
-  private async pullRemoteCopy(path: string, targetPath: string, branch: string): Promise<void> {
-    const normalized = normalizePath(path);
-    const { content } = await this.client.getFile(normalized, branch);
+  private async pullRemoteCopy(
+    record: ConflictRecord,
+    targetPath: string,
+    branch: string
+  ): Promise<void> {
+    const content = await this.downloadRemote(record, branch);
     const buffer = Buffer.from(content, "base64");
     await this.ensureParentFolder(targetPath);
     await this.app.vault.createBinary(targetPath, buffer);
@@ -97,15 +121,14 @@ export class ConflictActionRunner {
 
     const data = await this.app.vault.readBinary(abstractFile);
     const contentBase64 = Buffer.from(data).toString("base64");
-    let sha: string | undefined;
-    try {
-      const remote = await this.client.getFile(normalized, branch);
-      sha = remote.sha;
-    } catch {
-      sha = undefined;
-    }
+    const repoPath = this.pathMapper.requireRepo(normalized);
+    const sha = (await this.client.getBlobSha(repoPath, branch)) ?? undefined;
+    await this.client.putFile(repoPath, contentBase64, `conflict: keep local ${repoPath}`, sha, branch);
+  }
 
-    await this.client.putFile(normalized, contentBase64, `conflict: keep local ${path}`, sha, branch);
+  private async hasLocalConflictMarkers(path: string): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+    return file instanceof TFile && hasConflictMarkers(await this.app.vault.read(file));
   }
 
   private async deleteLocal(path: string): Promise<void> {
@@ -119,19 +142,13 @@ export class ConflictActionRunner {
   }
 
   private async deleteRemote(path: string, branch: string): Promise<void> {
-    let sha: string | undefined;
-    try {
-      const remote = await this.client.getFile(path, branch);
-      sha = remote.sha;
-    } catch {
-      sha = undefined;
-    }
-
+    const repoPath = this.pathMapper.requireRepo(path);
+    const sha = await this.client.getBlobSha(repoPath, branch);
     if (!sha) {
       return;
     }
 
-    await this.client.deleteFile(path, `conflict: delete ${path}`, sha, branch);
+    await this.client.deleteFile(repoPath, `conflict: delete ${repoPath}`, sha, branch);
   }
 
   private async copyLocal(sourcePath: string, targetPath: string): Promise<void> {
@@ -1,5 +1,19 @@
-import type { ConflictRecord, SyncConfig, SyncOp } from "../types/sync-types";
+import type {
+  ConflictDecision,
+  ConflictPolicy,
+  ConflictRecord,
+  ConflictResolveOptions,
+  MergeDriverInput,
+  MergeDriverResult,
+  MergeDriverRule,
+  SyncOp,
+} from "../types/sync-types";
 import type { ConflictResolver } from "../types/interfaces";
+import { ConflictPolicyRules } from "./conflict-rules";
+import { createMergeDriverRegistry, MergeDriverRegistry } from "./merge-drivers";
+import { isTextPath, mergeWithMarkers } from "./text-merge";
+
+const DEFAULT_NEWEST_WINS_TOLERANCE_SECONDS = 60;
 
 type ConflictReason =
   | "modify-modify"
@@ -8,12 +22,20 @@ type ConflictReason =
   | "local-missing-remote";
 
 export class DefaultConflictResolver implements ConflictResolver {
+  private drivers: MergeDriverRegistry;
+
+  constructor(drivers: MergeDriverRegistry = createMergeDriverRegistry()) {
+    this.drivers = drivers;
+  }
+
   resolve(
     conflicts: SyncOp[],
-    policy: SyncConfig["conflictPolicy"]
+    defaultPolicy: ConflictPolicy,
+    options: ConflictResolveOptions = {}
   ): { resolvedOps: SyncOp[]; conflictRecords: ConflictRecord[] } {
     const resolvedOps: SyncOp[] = [];
     const conflictRecords: ConflictRecord[] = [];
+    const policies = new ConflictPolicyRules(options.rules, defaultPolicy);
 
     for (const conflict of conflicts) {
       if (conflict.type !== "conflict") {
@@ -21,9 +43,21 @@ export class DefaultConflictResolver implements ConflictResolver {
       }
 
       const reason = this.normalizeReason(conflict.reason);
-      conflictRecords.push(this.buildRecord(conflict.path, reason, policy));
+      const { policy, rule } = policies.match(conflict.path);
+      const record = this.buildRecord(conflict.path, reason, policy, rule);
+      conflictRecords.push(record);
+
+      if (policy === "manual" || policy === "keepBoth" || policy === "markers") {
+        continue;
+      }
 
-      if (policy === "manual" || policy === "keepBoth") {
+      if (policy === "newestWins") {
+        record.decision = this.decideNewest(conflict.path, options);
+        if (record.decision.winner === "local") {
+          resolvedOps.push(this.resolvePreferLocal(conflict.path, reason));
+        } else if (record.decision.winner === "remote") {
+          resolvedOps.push(this.resolvePreferRemote(conflict.path, reason));
+        }
         continue;
       }
 
@@ -38,6 +72,53 @@ export class DefaultConflictResolver implements ConflictResolver {
     return { resolvedOps, conflictRecords };
   }
 
+  /**
+   * Compares the local modification time with the remote's last commit time.
+   * Changes within the tolerance, or without a known time on either side (a
+   * deletion has none), are too close to call and keep both versions.
+   */
+  private decideNewest(path: string, options: ConflictResolveOptions): ConflictDecision {
+    const localTime = options.local?.[path]?.mtime;
+    const remoteTime = options.remote?.[path]?.lastCommitTime;
+    if (!localTime) {
+      return { winner: "both", reason: "no local modification time" };
+    }
+    if (!remoteTime) {
+      return { winner: "both", reason: "no remote commit time" };
+    }
+
+    const tolerance = options.newestWinsToleranceSeconds ?? DEFAULT_NEWEST_WINS_TOLERANCE_SECONDS;
+    const apart = Math.round(Math.abs(localTime - remoteTime) / 1000);
+    if (apart <= tolerance) {
+      return { winner: "both", reason: `changes ${apart}s apart, within the ${tolerance}s tolerance` };
+    }
+    return localTime > remoteTime
+      ? { winner: "local", reason: `local change ${apart}s newer than the remote commit` }
+      : { winner: "remote", reason: `remote commit ${apart}s newer than the local change` };
+  }
+
+  canMerge(path: string, rules?: MergeDriverRule[]): boolean {
+    return this.drivers.find(path, rules) !== null;
+  }
+
+  /**
+   * Merges both sides of a modify-modify conflict with their common ancestor,
+   * using the merge driver for the path. The content is null when the driver
+   * cannot merge the edits, leaving the conflict to the policy.
+   */
+  async merge(input: MergeDriverInput, rules?: MergeDriverRule[]): Promise<MergeDriverResult> {
+    const driver = this.drivers.find(input.path, rules);
+    return driver ? await driver.merge(input) : { content: null };
+  }
+
+  /**
+   * Like merge, but writes overlapping edits between conflict markers instead
+   * of giving up. Returns null for files that are not text.
+   */
+  mergeWithMarkers(path: string, base: string | null, local: string, remote: string): string | null {
+    return isTextPath(path) ? mergeWithMarkers(base, local, remote) : null;
+  }
+
   private normalizeReason(reason: string): ConflictReason {
     if (reason === "delete-modify-local") {
       return "delete-modify-local";
@@ -57,7 +138,8 @@ export class DefaultConflictResolver implements ConflictResolver {
   private buildRecord(
     path: string,
     reason: ConflictReason,
-    policy: SyncConfig["conflictPolicy"]
+    policy: ConflictPolicy,
+    rule: string | undefined
   ): ConflictRecord {
     const type = reason === "modify-modify" ? "modify-modify" : "delete-modify";
     return {
@@ -65,6 +147,7 @@ export class DefaultConflictResolver implements ConflictResolver {
       type,
       reason,
       policy,
+      ...(rule ? { rule } : {}),
       timestamp: new Date().toISOString(),
     };
   }
@@ -0,0 +1,93 @@
+import { normalizePath } from "obsidian";
+import picomatch from "picomatch";
+import type { ConflictPolicy, ConflictRule } from "../types/sync-types";
+
+const POLICIES: ConflictPolicy[] = [
+  "preferLocal",
+  "preferRemote",
+  "keepBoth",
+  "markers",
+  "newestWins",
+  "manual",
+];
+
+export type PolicyMatch = {
+  policy: ConflictPolicy;
+  /** Pattern of the rule that matched, if any. */
+  rule?: string;
+};
+
+/**
+ * Picks the conflict policy for a path from an ordered list of glob rules. The
+ * first matching rule wins; paths no rule matches use the default policy.
+ * Patterns without a `/` match the file name at any depth, e.g. `*.png`.
+ */
+export class ConflictPolicyRules {
+  private rules: Array<{ rule: ConflictRule; match: (path: string) => boolean }>;
+  private defaultPolicy: ConflictPolicy;
+
+  constructor(rules: ConflictRule[] = [], defaultPolicy: ConflictPolicy) {
+    this.rules = rules.map((rule) => ({ rule, match: pathMatcher(rule.pattern) }));
+    this.defaultPolicy = defaultPolicy;
+  }
+
+  match(path: string): PolicyMatch {
+    const normalized = normalizePath(path);
+    const found = this.rules.find(({ match }) => match(normalized));
+    return found
+      ? { policy: found.rule.policy, rule: found.rule.pattern }
+      : { policy: this.defaultPolicy };
+  }
+
+  policyFor(path: string): ConflictPolicy {
+    return this.match(path).policy;
+  }
+}
+
+/**
+ * Parses one `glob -> policy` rule per line. Returns null if a line is
+ * malformed or names an unknown policy.
+ */
+export function parseConflictRules(text: string): ConflictRule[] | null {
+  const lines = parsePatternLines(text);
+  if (!lines || lines.some(({ value }) => !POLICIES.includes(value as ConflictPolicy))) {
+    return null;
+  }
+  return lines.map(({ pattern, value }) => ({ pattern, policy: value as ConflictPolicy }));
+}
+
+/**
+ * Splits `glob -> value` lines, skipping blank ones. Returns null if a line
+ * has no single `->` or an empty side.
+ */
+export function parsePatternLines(text: string): Array<{ pattern: string; value: string }> | null {
+  const lines: Array<{ pattern: string; value: string }> = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === "") {
+      continue;
+    }
+    const parts = line.split("->");
+    if (parts.length !== 2) {
+      return null;
+    }
+    const pattern = parts[0].trim();
+    const value = parts[1].trim();
+    if (pattern === "" || value === "") {
+      return null;
+    }
+    lines.push({ pattern, value });
+  }
+  return lines;
+}
+
+export function formatConflictRules(rules: ConflictRule[]): string {
+  return rules.map((rule) => `${rule.pattern} -> ${rule.policy}`).join("\n");
+}
+
+/**
+ * Matches vault paths against a glob. Patterns without a `/` match the file
+ * name at any depth.
+ */
+export function pathMatcher(pattern: string): (path: string) => boolean {
+  return picomatch(pattern, { dot: true, basename: !pattern.includes("/") });
+}
@@ -0,0 +1,219 @@
+import type { TextMergeResult } from "../types/sync-types";
+import { mergeText, splitLines } from "./text-merge";
+
+const FRONTMATTER = /^---\r?\n(?:[\s\S]*?\r?\n)?---(?:\r?\n|$)/;
+const KEY_LINE = /^([^\s#-][^:]*):(?=\s|$)/;
+
+type Note = {
+  /** The `---` delimited block, or null when the note has none. */
+  frontmatter: string | null;
+  body: string;
+};
+
+type Property = {
+  key: string;
+  /** The key line and its indented continuation lines. */
+  lines: string[];
+};
+
+type Properties = {
+  /** Comments and blank lines before the first key. */
+  preamble: string[];
+  byKey: Map<string, Property>;
+};
+
+type ListValue = { style: "block"; indent: string; items: string[] } | { style: "flow"; items: string[] };
+
+/**
+ * Three-way merges a note's YAML frontmatter property by property and its body
+ * line by line. List values such as `tags` are merged as sets. Properties both
+ * sides changed differently are returned as conflicting keys, and the merge
+ * fails. Notes whose frontmatter is not a flat list of keys merge as plain text.
+ */
+export function mergeNote(base: string, local: string, remote: string): TextMergeResult {
+  const notes = [base, local, remote].map(splitNote);
+  if (notes.every((note) => note.frontmatter === null)) {
+    return { text: mergeText(base, local, remote), conflictingKeys: [] };
+  }
+
+  const [baseProps, localProps, remoteProps] = notes.map((note) => parseProperties(note.frontmatter));
+  if (!baseProps || !localProps || !remoteProps) {
+    return { text: mergeText(base, local, remote), conflictingKeys: [] };
+  }
+
+  const properties = mergeProperties(baseProps, localProps, remoteProps);
+  const body = mergeText(notes[0].body, notes[1].body, notes[2].body);
+  if (properties.conflictingKeys.length > 0 || body === null) {
+    return { text: null, conflictingKeys: properties.conflictingKeys };
+  }
+
+  const [, localNote, remoteNote] = notes;
+  const delimiters = delimitersOf(localNote.frontmatter ?? remoteNote.frontmatter ?? "");
+  const frontmatter =
+    properties.lines.length > 0 || localNote.frontmatter !== null
+      ? `${delimiters.open}${properties.lines.join("")}${delimiters.close}`
+      : "";
+  return { text: frontmatter + body, conflictingKeys: [] };
+}
+
+function splitNote(text: string): Note {
+  const match = FRONTMATTER.exec(text);
+  return match
+    ? { frontmatter: match[0], body: text.slice(match[0].length) }
+    : { frontmatter: null, body: text };
+}
+
+function delimitersOf(frontmatter: string): { open: string; close: string } {
+  const lines = splitLines(frontmatter);
+  const open = lines[0] ?? "---\n";
+  const close = lines.length > 1 ? lines[lines.length - 1] : "---\n";
+  return { open, close: close.endsWith("\n") ? close : `${close}\n` };
+}
+
+/**
+ * Splits a frontmatter block into top-level properties. Returns null for
+ * anything that is not a flat mapping, such as duplicate keys or a document
+ * that starts with a list.
+ */
+function parseProperties(frontmatter: string | null): Properties | null {
+  const properties: Properties = { preamble: [], byKey: new Map() };
+  if (frontmatter === null) {
+    return properties;
+  }
+
+  const lines = splitLines(frontmatter).slice(1, -1);
+  let current: Property | null = null;
+  for (const line of lines) {
+    const key = KEY_LINE.exec(line)?.[1].trim();
+    if (key !== undefined) {
+      if (properties.byKey.has(key)) {
+        return null;
+      }
+      current = { key, lines: [line] };
+      properties.byKey.set(key, current);
+    } else if (current) {
+      current.lines.push(line);
+    } else if (line.trim() === "" || line.startsWith("#")) {
+      properties.preamble.push(line);
+    } else {
+      return null;
+    }
+  }
+  return properties;
+}
+
+function mergeProperties(
+  base: Properties,
+  local: Properties,
+  remote: Properties
+): { lines: string[]; conflictingKeys: string[] } {
+  const keys = [...local.byKey.keys()];
+  for (const key of remote.byKey.keys()) {
+    if (!local.byKey.has(key)) {
+      keys.push(key);
+    }
+  }
+
+  const lines = [...local.preamble];
+  const conflictingKeys: string[] = [];
+  for (const key of keys) {
+    const baseValue = base.byKey.get(key);
+    const localValue = local.byKey.get(key);
+    const remoteValue = remote.byKey.get(key);
+
+    let merged: Property | undefined;
+    if (sameProperty(localValue, remoteValue) || sameProperty(remoteValue, baseValue)) {
+      merged = localValue;
+    } else if (sameProperty(localValue, baseValue)) {
+      merged = remoteValue;
+    } else {
+      const union = localValue && remoteValue ? mergeLists(baseValue, localValue, remoteValue) : null;
+      if (!union) {
+        conflictingKeys.push(key);
+        continue;
+      }
+      merged = union;
+    }
+    if (merged) {
+      lines.push(...merged.lines);
+    }
+  }
+  return { lines, conflictingKeys };
+}
+
+function sameProperty(a: Property | undefined, b: Property | undefined): boolean {
+  return a === b || (a !== undefined && b !== undefined && a.lines.join("") === b.lines.join(""));
+}
+
+/**
+ * Merges list values as sets: items either side added are kept, items either
+ * side removed are dropped. Keeps the local item order and list style.
+ */
+function mergeLists(base: Property | undefined, local: Property, remote: Property): Property | null {
+  const baseList = base ? parseList(base) : { style: "flow" as const, items: [] };
+  const localList = parseList(local);
+  const remoteList = parseList(remote);
+  if (!baseList || !localList || !remoteList) {
+    return null;
+  }
+
+  const inBase = new Set(baseList.items);
+  const inLocal = new Set(localList.items);
+  const inRemote = new Set(remoteList.items);
+  const items = [
+    ...localList.items.filter((item) => !inBase.has(item) || inRemote.has(item)),
+    ...remoteList.items.filter((item) => !inLocal.has(item) && !inBase.has(item)),
+  ];
+
+  const first = local.lines[0];
+  const keyText = first.slice(0, first.indexOf(":") + 1);
+  const newline = first.endsWith("\r\n") ? "\r\n" : "\n";
+  if (localList.style === "block" && items.length > 0) {
+    return {
+      key: local.key,
+      lines: [`${keyText}${newline}`, ...items.map((item) => `${localList.indent}- ${item}${newline}`)],
+    };
+  }
+  return { key: local.key, lines: [`${keyText} [${items.join(", ")}]${newline}`] };
+}
+
+/**
+ * Reads a property as a list of plain items, in block (`- item`) or flow
+ * (`[a, b]`) style. An empty value is an empty list. Returns null for any
+ * other value, including lists of quoted or nested items.
+ */
+function parseList(property: Property): ListValue | null {
+  const [first, ...rest] = property.lines;
+  const value = first.slice(first.indexOf(":") + 1).trim();
+  const continuation = rest.filter((line) => line.trim() !== "");
+
+  if (value === "" || value === "[]") {
+    if (continuation.length === 0) {
+      return { style: "flow", items: [] };
+    }
+    if (value !== "") {
+      return null;
+    }
+    const items: string[] = [];
+    for (const line of continuation) {
+      const match = /^(\s*)- (.*?)\s*$/.exec(line);
+      if (!match || !isPlainItem(match[2])) {
+        return null;
+      }
+      items.push(match[2]);
+    }
+    const indent = /^(\s*)-/.exec(continuation[0])?.[1] ?? "";
+    return { style: "block", indent, items };
+  }
+
+  const flow = /^\[(.*)\]$/.exec(value);
+  if (!flow || continuation.length > 0) {
+    return null;
+  }
+  const items = flow[1].split(",").map((item) => item.trim());
+  return items.every(isPlainItem) ? { style: "flow", items } : null;
+}
+
+function isPlainItem(item: string): boolean {
+  return item !== "" && !/["'[\]{},#]/.test(item);
+}
@@ -0,0 +1,15 @@
+/**
+ * Computes the id Git gives the content as a blob: SHA-1 over
+ * `blob <size>\0` followed by the bytes. Equal ids mean equal content.
+ */
+export async function gitBlobSha(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const object = new Uint8Array(header.length + bytes.length);
+  object.set(header, 0);
+  object.set(bytes, header.length);
+  const digest = await crypto.subtle.digest("SHA-1", object);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
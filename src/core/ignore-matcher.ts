@@ -0,0 +1,115 @@
+import { normalizePath } from "obsidian";
+import picomatch from "picomatch";
+
+export const SYNC_IGNORE_FILE = ".syncignore";
+export const GIT_IGNORE_FILE = ".gitignore";
+
+type IgnoreRule = {
+  negate: boolean;
+  dirOnly: boolean;
+  match: (path: string) => boolean;
+};
+
+/**
+ * Matches vault-relative paths against gitignore-style rules: `#` comments,
+ * `!` negation, a trailing `/` for directory-only rules, and anchoring for any
+ * rule that contains a `/`. The last matching rule wins, and a file inside an
+ * ignored directory stays ignored even if a later rule re-includes it, as in Git.
+ */
+export class IgnoreMatcher {
+  private rules: IgnoreRule[];
+
+  constructor(lines: string[]) {
+    this.rules = lines.flatMap((line) => {
+      const rule = this.parseRule(line);
+      return rule ? [rule] : [];
+    });
+  }
+
+  /**
+   * Splits the contents of an ignore file into rule lines, dropping blank
+   * lines and comments.
+   */
+  static parseFile(text: string): string[] {
+    return text.split(/\r?\n/).filter((line) => line.trim() !== "" && !line.startsWith("#"));
+  }
+
+  isIgnored(path: string, isDirectory = false): boolean {
+    const normalized = normalizePath(path);
+    const parts = normalized.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      if (this.matches(parts.slice(0, i).join("/"), true)) {
+        return true;
+      }
+    }
+
+    return this.matches(normalized, isDirectory);
+  }
+
+  private matches(path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.match(path)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private parseRule(line: string): IgnoreRule | null {
+    // Trailing spaces are dropped unless escaped with a backslash.
+    let pattern = line.replace(/(?<!\\)\s+$/, "");
+    if (pattern === "" || pattern.startsWith("#")) {
+      return null;
+    }
+
+    let negate = false;
+    if (pattern.startsWith("!")) {
+      negate = true;
+      pattern = pattern.slice(1);
+    } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+      pattern = pattern.slice(1);
+    }
+
+    let dirOnly = false;
+    if (pattern.endsWith("/")) {
+      dirOnly = true;
+      pattern = pattern.replace(/\/+$/, "");
+    }
+
+    // A slash anywhere but the end anchors the rule to the root; otherwise it
+    // matches at any depth.
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\/+/, "");
+    if (pattern === "") {
+      return null;
+    }
+
+    const glob = anchored ? pattern : `**/${pattern}`;
+    return { negate, dirOnly, match: picomatch(glob, { dot: true }) };
+  }
+}
+
+/**
+ * Rewrites the anchored rules of an ignore file written against other paths,
+ * such as repository paths under path mappings, with `mapPath`. Rules that
+ * match at any depth are kept as they are; anchored rules whose path does not
+ * map are dropped, since they cannot match anything in the sync.
+ */
+export function mapIgnoreRules(lines: string[], mapPath: (path: string) => string | null): string[] {
+  return lines.flatMap((line) => {
+    // A leading backslash only escapes `!` or `#`, which the mapped rule no
+    // longer starts with.
+    const [, prefix, body, suffix] = /^(!|\\(?=[!#]))?(.*?)(\/*\s*)$/.exec(line) ?? [];
+    if (!body || !body.includes("/")) {
+      return [line];
+    }
+
+    const mapped = mapPath(body.replace(/^\/+/, ""));
+    const negate = prefix === "!" ? "!" : "";
+    return mapped === null ? [] : [`${negate}/${mapped}${suffix}`];
+  });
+}
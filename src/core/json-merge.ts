@@ -0,0 +1,156 @@
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// Marks a value both sides changed differently.
+const CONFLICT = Symbol("conflict");
+
+type Merged = Json | undefined | typeof CONFLICT;
+
+/**
+ * Three-way merges JSON documents. Objects merge key by key, and arrays under
+ * one of `keyedArrays` merge element by element using each element's `id`.
+ * Anything else both sides changed differently is a conflict. Returns null on
+ * a conflict or when a side is not valid JSON.
+ */
+export function mergeJson(
+  base: string,
+  local: string,
+  remote: string,
+  keyedArrays: string[] = []
+): string | null {
+  let values: Json[];
+  try {
+    values = [base, local, remote].map((text) => JSON.parse(text) as Json);
+  } catch {
+    return null;
+  }
+
+  const merged = mergeValue(values[0], values[1], values[2], new Set(keyedArrays));
+  if (merged === CONFLICT || merged === undefined) {
+    return null;
+  }
+  return formatLike(local, merged);
+}
+
+/**
+ * Merges Obsidian canvas files, matching `nodes` and `edges` by id so edits to
+ * different nodes never conflict.
+ */
+export function mergeCanvas(base: string, local: string, remote: string): string | null {
+  return mergeJson(base, local, remote, ["nodes", "edges"]);
+}
+
+function mergeValue(
+  base: Json | undefined,
+  local: Json | undefined,
+  remote: Json | undefined,
+  keyedArrays: Set<string>,
+  key?: string
+): Merged {
+  if (isEqual(local, remote) || isEqual(remote, base)) {
+    return local;
+  }
+  if (isEqual(local, base)) {
+    return remote;
+  }
+
+  if (isObject(local) && isObject(remote) && (base === undefined || isObject(base))) {
+    const [baseEntries, localEntries, remoteEntries] = [base ?? {}, local, remote].map(toEntries);
+    const merged = mergeEntries(baseEntries, localEntries, remoteEntries, keyedArrays, true);
+    return merged === CONFLICT ? CONFLICT : Object.fromEntries(merged);
+  }
+
+  if (key !== undefined && keyedArrays.has(key)) {
+    const [baseEntries, localEntries, remoteEntries] = [base ?? [], local, remote].map(byId);
+    if (baseEntries && localEntries && remoteEntries) {
+      const merged = mergeEntries(baseEntries, localEntries, remoteEntries, keyedArrays, false);
+      return merged === CONFLICT ? CONFLICT : merged.map(([, value]) => value);
+    }
+  }
+
+  return CONFLICT;
+}
+
+/**
+ * Merges keyed entries in local order, followed by entries only the remote
+ * added. `named` is false for array elements, whose ids are not property names.
+ */
+function mergeEntries(
+  base: Map<string, Json>,
+  local: Map<string, Json>,
+  remote: Map<string, Json>,
+  keyedArrays: Set<string>,
+  named: boolean
+): Array<[string, Json]> | typeof CONFLICT {
+  const keys = [...local.keys(), ...[...remote.keys()].filter((key) => !local.has(key))];
+  const merged: Array<[string, Json]> = [];
+  for (const key of keys) {
+    const value = mergeValue(
+      base.get(key),
+      local.get(key),
+      remote.get(key),
+      keyedArrays,
+      named ? key : undefined
+    );
+    if (value === CONFLICT) {
+      return CONFLICT;
+    }
+    if (value !== undefined) {
+      merged.push([key, value]);
+    }
+  }
+  return merged;
+}
+
+function toEntries(value: { [key: string]: Json }): Map<string, Json> {
+  return new Map(Object.entries(value));
+}
+
+/**
+ * Indexes an array of objects by their string `id`. Returns null if an element
+ * has no id or an id repeats.
+ */
+function byId(value: Json | undefined): Map<string, Json> | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const entries = new Map<string, Json>();
+  for (const element of value) {
+    const id = isObject(element) ? element.id : undefined;
+    if (typeof id !== "string" || entries.has(id)) {
+      return null;
+    }
+    entries.set(id, element);
+  }
+  return entries;
+}
+
+function isObject(value: Json | undefined): value is { [key: string]: Json } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: Json | undefined, b: Json | undefined): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Serializes the merge with the indentation and trailing newline of the local
+ * file, so an unchanged layout produces no diff.
+ */
+function formatLike(original: string, value: Json): string {
+  const indent = /^[{[]\r?\n([ \t]+)/.exec(original)?.[1];
+  const text = JSON.stringify(value, null, indent);
+  return original.endsWith("\n") ? `${text}\n` : text;
+}
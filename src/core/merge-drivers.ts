@@ -0,0 +1,176 @@
+import { normalizePath } from "obsidian";
+import type { MergeDriver } from "../types/interfaces";
+import type { MergeDriverInput, MergeDriverResult, MergeDriverRule } from "../types/sync-types";
+import { parsePatternLines, pathMatcher } from "./conflict-rules";
+import { mergeNote } from "./frontmatter-merge";
+import { mergeCanvas, mergeJson } from "./json-merge";
+import { endWithNewline, fileExtension, mergeLines, mergeText, splitLines } from "./text-merge";
+
+type RegisteredDriver = {
+  driver: MergeDriver;
+  patterns: Array<(path: string) => boolean>;
+};
+
+/**
+ * Keeps the merge drivers available to conflicts and picks one per path.
+ * Merge driver rules are checked first, in order; otherwise the most recently
+ * registered driver whose extensions or patterns match is used.
+ */
+export class MergeDriverRegistry {
+  private drivers: RegisteredDriver[] = [];
+
+  register(driver: MergeDriver): () => void {
+    this.unregister(driver.name);
+    const registered = { driver, patterns: (driver.patterns ?? []).map(pathMatcher) };
+    this.drivers.push(registered);
+    return () => {
+      this.drivers = this.drivers.filter((entry) => entry !== registered);
+    };
+  }
+
+  unregister(name: string): void {
+    this.drivers = this.drivers.filter((entry) => entry.driver.name !== name);
+  }
+
+  get(name: string): MergeDriver | null {
+    return this.drivers.find((entry) => entry.driver.name === name)?.driver ?? null;
+  }
+
+  names(): string[] {
+    return this.drivers.map((entry) => entry.driver.name);
+  }
+
+  /**
+   * Returns the driver for a path. Rules naming a driver that is not
+   * registered, such as one from a disabled plugin, are skipped.
+   */
+  find(path: string, rules: MergeDriverRule[] = []): MergeDriver | null {
+    const normalized = normalizePath(path);
+    for (const rule of rules) {
+      const driver = this.get(rule.driver);
+      if (driver && pathMatcher(rule.pattern)(normalized)) {
+        return driver;
+      }
+    }
+
+    const extension = fileExtension(normalized);
+    for (let index = this.drivers.length - 1; index >= 0; index--) {
+      const { driver, patterns } = this.drivers[index];
+      if (
+        driver.extensions?.some((candidate) => candidate.toLowerCase() === extension) ||
+        patterns.some((match) => match(normalized))
+      ) {
+        return driver;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * A registry with the built-in drivers: notes, plain text, JSON and canvases by
+ * file type, plus union, append-only, take-local and take-remote for merge
+ * driver rules.
+ */
+export function createMergeDriverRegistry(): MergeDriverRegistry {
+  const registry = new MergeDriverRegistry();
+  for (const driver of BUILT_IN_DRIVERS) {
+    registry.register(driver);
+  }
+  return registry;
+}
+
+export function parseMergeDriverRules(text: string): MergeDriverRule[] | null {
+  return parsePatternLines(text)?.map(({ pattern, value }) => ({ pattern, driver: value })) ?? null;
+}
+
+export function formatMergeDriverRules(rules: MergeDriverRule[]): string {
+  return rules.map((rule) => `${rule.pattern} -> ${rule.driver}`).join("\n");
+}
+
+const BUILT_IN_DRIVERS: MergeDriver[] = [
+  {
+    name: "note",
+    extensions: ["md", "markdown"],
+    merge: (input) => {
+      const { text, conflictingKeys } = mergeNote(...decodeAll(input));
+      return { content: encodeOrNull(text), conflictingKeys };
+    },
+  },
+  textDriver("text", ["txt"], mergeText),
+  textDriver("json", ["json"], mergeJson),
+  textDriver("canvas", ["canvas"], mergeCanvas),
+  textDriver("union", [], unionText),
+  {
+    name: "append-only",
+    merge: (input) => {
+      const remoteFirst =
+        input.localTime !== undefined &&
+        input.remoteTime !== undefined &&
+        input.remoteTime < input.localTime;
+      return { content: encodeOrNull(mergeAppended(...decodeAll(input), remoteFirst)) };
+    },
+  },
+  { name: "take-local", merge: (input) => ({ content: input.local }) },
+  { name: "take-remote", merge: (input) => ({ content: input.remote }) },
+];
+
+function textDriver(
+  name: string,
+  extensions: string[],
+  merge: (base: string, local: string, remote: string) => string | null
+): MergeDriver {
+  return {
+    name,
+    extensions,
+    merge: (input): MergeDriverResult => ({ content: encodeOrNull(merge(...decodeAll(input))) }),
+  };
+}
+
+/**
+ * Keeps the lines both sides added, local before remote, where the edits
+ * overlap, as git's union merge does.
+ */
+function unionText(base: string, local: string, remote: string): string | null {
+  const chunks = mergeLines(splitLines(base), splitLines(local), splitLines(remote));
+  if (!chunks) {
+    return null;
+  }
+  const lines: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.kind === "resolved") {
+      lines.push(...chunk.lines);
+    } else if (chunk.remote.length === 0) {
+      lines.push(...chunk.local);
+    } else {
+      lines.push(...endWithNewline(chunk.local), ...chunk.remote);
+    }
+  }
+  return lines.join("");
+}
+
+/**
+ * Combines two versions that only appended to the ancestor: the ancestor, then
+ * the section appended earlier, then the other. Returns null if either side
+ * changed anything before its appended section.
+ */
+function mergeAppended(base: string, local: string, remote: string, remoteFirst: boolean): string | null {
+  if (!local.startsWith(base) || !remote.startsWith(base)) {
+    return null;
+  }
+  const sections = [local.slice(base.length), remote.slice(base.length)];
+  const [first, second] = remoteFirst ? sections.reverse() : sections;
+  if (first === "" || second === "") {
+    return base + first + second;
+  }
+  return base + endWithNewline(splitLines(first)).join("") + second;
+}
+
+function decodeAll(input: MergeDriverInput): [string, string, string] {
+  const decoder = new TextDecoder();
+  return [decoder.decode(input.base), decoder.decode(input.local), decoder.decode(input.remote)];
+}
+
+function encodeOrNull(text: string | null): Uint8Array | null {
+  return text === null ? null : new TextEncoder().encode(text);
+}
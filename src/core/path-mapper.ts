@@ -0,0 +1,121 @@
+import { normalizePath } from "obsidian";
+import type { PathMapping } from "../types/sync-types";
+
+/**
+ * Translates between vault paths and repository paths for a set of folder
+ * mappings, e.g. vault `Work/` ↔ repo `notes/`. The most specific mapping wins
+ * on either side. Without mappings both sides use the same paths.
+ *
+ * Indexes, the baseline and conflict records are keyed by vault path; repo paths
+ * only appear in requests to GitHub.
+ */
+export class PathMapper {
+  private mappings: PathMapping[];
+
+  constructor(mappings: PathMapping[] = []) {
+    this.mappings = mappings.map((mapping) => ({
+      vaultPath: this.normalizeFolder(mapping.vaultPath),
+      repoPath: this.normalizeFolder(mapping.repoPath),
+    }));
+  }
+
+  isIdentity(): boolean {
+    return this.mappings.length === 0;
+  }
+
+  describe(): string {
+    return this.mappings.map((mapping) => `${mapping.vaultPath}/ -> ${mapping.repoPath}/`).join(", ");
+  }
+
+  /**
+   * Returns the repository path for a vault path, or null when no mapping
+   * covers it.
+   */
+  toRepo(vaultPath: string): string | null {
+    return this.translate(vaultPath, "vaultPath", "repoPath");
+  }
+
+  /**
+   * Returns the vault path for a repository path, or null when no mapping
+   * covers it.
+   */
+  toVault(repoPath: string): string | null {
+    return this.translate(repoPath, "repoPath", "vaultPath");
+  }
+
+  /**
+   * Like toRepo, but for paths that are already known to be in scope.
+   */
+  requireRepo(vaultPath: string): string {
+    const repoPath = this.toRepo(vaultPath);
+    if (repoPath === null) {
+      throw new Error(`No path mapping covers ${vaultPath}`);
+    }
+    return repoPath;
+  }
+
+  private translate(
+    path: string,
+    from: keyof PathMapping,
+    to: keyof PathMapping
+  ): string | null {
+    const normalized = normalizePath(path);
+    if (this.isIdentity()) {
+      return normalized;
+    }
+
+    const mapping = this.findMapping(normalized, from);
+    if (!mapping) {
+      return null;
+    }
+
+    const relative = mapping[from] === "" ? normalized : normalized.slice(mapping[from].length + 1);
+    const translated = mapping[to] === "" ? relative : `${mapping[to]}/${relative}`;
+
+    // Overlapping mappings can send a path somewhere that does not map back;
+    // treat such paths as unmapped rather than syncing them to the wrong place.
+    const back = this.findMapping(translated, to);
+    return back === mapping ? translated : null;
+  }
+
+  private findMapping(path: string, side: keyof PathMapping): PathMapping | null {
+    let best: PathMapping | null = null;
+    for (const mapping of this.mappings) {
+      const prefix = mapping[side];
+      if (prefix !== "" && !path.startsWith(`${prefix}/`)) {
+        continue;
+      }
+      if (!best || prefix.length > best[side].length) {
+        best = mapping;
+      }
+    }
+    return best;
+  }
+
+  private normalizeFolder(path: string): string {
+    return normalizePath(path.trim()).replace(/^\/+|\/+$/g, "");
+  }
+}
+
+/**
+ * Parses one `vault/folder -> repo/folder` mapping per line. An empty side
+ * stands for the vault or repository root. Returns null if a line is malformed.
+ */
+export function parsePathMappings(text: string): PathMapping[] | null {
+  const mappings: PathMapping[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === "") {
+      continue;
+    }
+    const parts = line.split("->");
+    if (parts.length !== 2) {
+      return null;
+    }
+    mappings.push({ vaultPath: parts[0].trim(), repoPath: parts[1].trim() });
+  }
+  return mappings;
+}
+
+export function formatPathMappings(mappings: PathMapping[]): string {
+  return mappings.map((mapping) => `${mapping.vaultPath} -> ${mapping.repoPath}`).join("\n");
+}
@@ -0,0 +1,74 @@
+import type { SyncOp, SyncPlan } from "../types/sync-types";
+
+export type PlanGroup = {
+  type: SyncOp["type"];
+  label: string;
+  ops: SyncOp[];
+  /** Bytes transferred or removed by the ops in the group, where known. */
+  size: number;
+};
+
+const GROUP_LABELS: Record<SyncOp["type"], string> = {
+  pull_new: "Download new files",
+  pull_update: "Download changes",
+  pull_delete: "Delete local files",
+  push_new: "Upload new files",
+  push_update: "Upload changes",
+  push_delete: "Delete remote files",
+  rename_local: "Upload local renames",
+  rename_remote: "Apply remote renames",
+  conflict: "Conflicts",
+};
+
+/**
+ * Vault paths an op reads or writes. Renames touch both their old and new path.
+ */
+export function opPaths(op: SyncOp): string[] {
+  return op.type === "rename_local" || op.type === "rename_remote" ? [op.from, op.to] : [op.path];
+}
+
+/**
+ * Groups a plan's ops and conflicts by type, downloads first, leaving out
+ * empty groups.
+ */
+export function summarizePlan(plan: SyncPlan): PlanGroup[] {
+  const groups: PlanGroup[] = [];
+  for (const type of Object.keys(GROUP_LABELS) as Array<SyncOp["type"]>) {
+    const ops = [...plan.ops, ...plan.conflicts].filter((op) => op.type === type);
+    if (ops.length === 0) {
+      continue;
+    }
+    const size = ops.reduce((total, op) => total + opSize(op, plan), 0);
+    groups.push({ type, label: GROUP_LABELS[type], ops, size });
+  }
+  return groups;
+}
+
+function opSize(op: SyncOp, plan: SyncPlan): number {
+  switch (op.type) {
+    case "pull_new":
+    case "pull_update":
+    case "push_delete":
+      return plan.remote[op.path]?.size ?? 0;
+    case "push_new":
+    case "push_update":
+    case "pull_delete":
+      return plan.local[op.path]?.size ?? 0;
+    case "rename_local":
+      return plan.local[op.to]?.size ?? 0;
+    case "rename_remote":
+      return plan.remote[op.to]?.size ?? 0;
+    case "conflict":
+      return Math.max(plan.local[op.path]?.size ?? 0, plan.remote[op.path]?.size ?? 0);
+  }
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -1,11 +1,17 @@
 import { normalizePath, type App, TFile } from "obsidian";
 import type {
+  ConflictPolicy,
+  ConflictRecord,
+  FirstSyncSummary,
+  InitialSyncStrategy,
   LocalIndex,
   RemoteIndex,
   SyncBaseline,
   SyncConfig,
   SyncOp,
+  SyncPlan,
   SyncProgress,
+  SyncScopeOptions,
 } from "../types/sync-types";
 import type {
   ConflictResolver,
@@ -16,6 +22,26 @@ import type {
   SyncEngine,
   SyncPlanner,
 } from "../types/interfaces";
+import { GIT_IGNORE_FILE, IgnoreMatcher, mapIgnoreRules, SYNC_IGNORE_FILE } from "./ignore-matcher";
+import { SyncScope } from "./sync-scope";
+import { PathMapper } from "./path-mapper";
+import { syncTargetKey } from "./sync-target";
+import { opPaths } from "./plan-summary";
+import { hasConflictMarkers, isTextPath } from "./text-merge";
+import { ConflictPolicyRules } from "./conflict-rules";
+import { gitBlobSha } from "./git-blob";
+
+// Shown for a baseline recorded before baselines were keyed by target.
+const LEGACY_TARGET_LABEL = "an earlier repository or branch";
+
+// Ops that apply a change made on the remote since the last sync.
+const REMOTE_CHANGE_OPS = new Set<SyncOp["type"]>([
+  "pull_new",
+  "pull_update",
+  "pull_delete",
+  "rename_remote",
+  "conflict",
+]);
 
 export class DefaultSyncEngine implements SyncEngine {
   private app: App;
@@ -25,6 +51,7 @@ export class DefaultSyncEngine implements SyncEngine {
   private planner: SyncPlanner;
   private resolver: ConflictResolver;
   private stateStore: StateStore;
+  private pathMapper = new PathMapper();
 
   constructor(
     app: App,
@@ -46,123 +73,513 @@ export class DefaultSyncEngine implements SyncEngine {
 
   async sync(config: SyncConfig): Promise<void> {
     await this.log("info", "Sync started.");
-    try {
-      // Stage 1: Scanning
+    await this.runSession(config, async () => {
+      const plan = await this.buildPlan(config);
+      await this.applyPlan(plan, config);
+    });
+  }
+
+  /**
+   * Scans both sides and plans a sync without writing anything.
+   */
+  async planSync(config: SyncConfig): Promise<SyncPlan> {
+    await this.log("info", "Sync preview started.");
+    return this.runSession(config, () => this.buildPlan(config));
+  }
+
+  /**
+   * Executes a plan from planSync. With `approved`, only those ops and
+   * conflicts run; the baseline keeps its previous state for the paths of the
+   * rest, so the next sync plans them again.
+   */
+  async executePlan(plan: SyncPlan, config: SyncConfig, approved?: SyncOp[]): Promise<void> {
+    await this.log(
+      "info",
+      approved ? `Applying ${approved.length} previewed ops.` : "Applying previewed plan."
+    );
+    await this.runSession(config, () => this.applyPlan(plan, config, approved));
+  }
+
+  /**
+   * Reports rate limit waits as progress while a task talks to GitHub, and logs
+   * a failure before passing it on.
+   */
+  private async runSession<T>(config: SyncConfig, task: () => Promise<T>): Promise<T> {
+    this.gitClient.setRateLimitListener?.((wait) => {
+      const seconds = Math.ceil(wait.waitMs / 1000);
+      const resumeAt = new Date(wait.resumeAt).toLocaleTimeString();
       this.reportProgress(config, {
-        stage: "scanning",
-        message: "Loading baseline and scanning files...",
+        stage: "waiting",
+        message: `GitHub ${wait.kind} rate limit reached, waiting ${seconds}s (until ${resumeAt})...`,
       });
+    });
+    try {
+      return await task();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.log("error", `Sync failed: ${message}`);
+      throw error;
+    } finally {
+      this.gitClient.setRateLimitListener?.(null);
+    }
+  }
+
+  private async buildPlan(config: SyncConfig): Promise<SyncPlan> {
+    // Stage 1: Scanning
+    this.reportProgress(config, {
+      stage: "scanning",
+      message: "Loading baseline and scanning files...",
+    });
+
+    const target = syncTargetKey(config);
+    let baseline = await this.stateStore.loadBaseline(target);
+    let unverifiedLegacy = false;
+    if (!baseline) {
+      const legacy = (await this.stateStore.loadLegacyBaseline?.()) ?? null;
+      if (legacy && (await this.isOnBranch(legacy, config.branch))) {
+        await this.log("info", `Using the baseline recorded before ${target} was tracked.`);
+        baseline = legacy;
+      } else {
+        unverifiedLegacy = legacy !== null;
+      }
+    }
+    let initialStrategy = baseline
+      ? undefined
+      : await this.chooseInitialStrategy(config, target, unverifiedLegacy);
 
-      const baseline = await this.stateStore.loadBaseline();
+    // Pass baseline to local indexer for hash optimization
+    this.localIndexer.setPreviousBaseline(baseline);
 
-      // Pass baseline to local indexer for hash optimization
-      this.localIndexer.setPreviousBaseline(baseline);
+    // Set max file size limit
+    if (config.maxFileSizeMB) {
+      this.localIndexer.setMaxFileSizeMB(config.maxFileSizeMB);
+    }
 
-      // Set max file size limit
-      if (config.maxFileSizeMB) {
-        this.localIndexer.setMaxFileSizeMB(config.maxFileSizeMB);
+    const pathMappings = config.pathMappings ?? [];
+    this.pathMapper = new PathMapper(pathMappings);
+    this.localIndexer.setPathMappings?.(pathMappings);
+    this.remoteIndexer.setPathMappings?.(pathMappings);
+
+    // Ignore files can live in the remote tree, so the local scan waits for it.
+    const remote = await this.remoteIndexer.fetchIndex(
+      config.owner,
+      config.repo,
+      config.branch,
+      baseline
+    );
+    const ignorePatterns = await this.loadIgnorePatterns(config, remote);
+    const scope = { rootPath: config.rootPath, ignorePatterns, pathMappings };
+    const local = await this.localIndexer.scan(config.rootPath, ignorePatterns);
+
+    // A first sync decides which side wins before planning, so a previewed plan
+    // is the one that runs.
+    let firstSyncPolicy: ConflictPolicy | undefined;
+    if (!baseline && initialStrategy === undefined && config.onFirstSync) {
+      const choice = await config.onFirstSync(this.summarizeFirstSync(local, remote, scope));
+      if (!choice) {
+        throw new Error("First sync cancelled.");
       }
+      await this.log("info", `First sync uses ${choice}.`);
+      if (choice === "keepBoth") {
+        initialStrategy = "mergeByContent";
+        firstSyncPolicy = "keepBoth";
+      } else {
+        initialStrategy = choice;
+      }
+    }
 
-      const [local, remote] = await Promise.all([
-        this.localIndexer.scan(config.rootPath, config.ignorePatterns),
-        this.remoteIndexer.fetchIndex(config.owner, config.repo, config.branch, baseline),
-      ]);
+    // Stage 2: Planning
+    this.reportProgress(config, {
+      stage: "planning",
+      message: "Planning sync operations...",
+    });
 
-      // Stage 2: Planning
-      this.reportProgress(config, {
-        stage: "planning",
-        message: "Planning sync operations...",
-      });
+    const { ops, conflicts } = this.planner.plan(local, remote, baseline, scope, initialStrategy);
 
-      const { ops, conflicts } = this.planner.plan(local, remote, baseline);
+    // Log detailed plan information for debugging
+    await this.log(
+      "info",
+      `Scan results: ${Object.keys(local).length} local files, ${Object.keys(remote).length} remote files, ` +
+      `${baseline ? Object.keys(baseline.entries).length : 0} baseline entries.`
+    );
+    if (this.remoteIndexer.describeLastFetch) {
+      await this.log("info", `Remote index built from ${this.remoteIndexer.describeLastFetch()}.`);
+    }
+    await this.log(
+      "info",
+      `Planned ${ops.length} ops with ${conflicts.length} conflicts.`
+    );
 
-      // Log detailed plan information for debugging
-      await this.log(
-        "info",
-        `Scan results: ${Object.keys(local).length} local files, ${Object.keys(remote).length} remote files, ` +
-        `${baseline ? Object.keys(baseline.entries).length : 0} baseline entries.`
-      );
-      await this.log(
-        "info",
-        `Planned ${ops.length} ops with ${conflicts.length} conflicts.`
-      );
+    // Log operation breakdown
+    const opsByType = ops.reduce((acc, op) => {
+      acc[op.type] = (acc[op.type] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
 
-      // Log operation breakdown
-      const opsByType = ops.reduce((acc, op) => {
-        acc[op.type] = (acc[op.type] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
+    for (const [type, count] of Object.entries(opsByType)) {
+      await this.log("info", `  ${type}: ${count}`);
+    }
 
-      for (const [type, count] of Object.entries(opsByType)) {
-        await this.log("info", `  ${type}: ${count}`);
+    // Log specific operations for debugging
+    for (const op of ops) {
+      if (op.type === "pull_new" || op.type === "pull_update") {
+        await this.log("info", `  → ${op.type}: ${op.path}${this.describeRemoteChange(remote[op.path])}`);
+      } else if (op.type === "push_new" || op.type === "push_update") {
+        await this.log("info", `  → ${op.type}: ${op.path}`);
+      } else if (op.type === "rename_local" || op.type === "rename_remote") {
+        await this.log("info", `  → ${op.type}: ${op.from} -> ${op.to}`);
       }
+    }
 
-      // Log specific operations for debugging
-      for (const op of ops) {
-        if (op.type === "pull_new" || op.type === "pull_update") {
-          await this.log("info", `  → ${op.type}: ${op.path}`);
-        } else if (op.type === "push_new" || op.type === "push_update") {
-          await this.log("info", `  → ${op.type}: ${op.path}`);
-        } else if (op.type === "rename_local" || op.type === "rename_remote") {
-          await this.log("info", `  → ${op.type}: ${op.from} -> ${op.to}`);
-        }
+    return {
+      target,
+      baseline,
+      firstSyncPolicy,
+      ignorePatterns,
+      local,
+      remote,
+      ops,
+      conflicts,
+    };
+  }
+
+  private async applyPlan(plan: SyncPlan, config: SyncConfig, approved?: SyncOp[]): Promise<void> {
+    if (plan.firstSyncPolicy) {
+      config = { ...config, conflictPolicy: plan.firstSyncPolicy, conflictRules: [] };
+    }
+
+    const { baseline, ignorePatterns, local, remote } = plan;
+    const selected = approved ? new Set(approved) : null;
+    const planned = [...plan.ops, ...plan.conflicts].filter((op) => !selected || selected.has(op));
+
+    // Files that still hold conflict markers from an earlier sync must not reach
+    // the remote, neither as uploads nor as one side of a merge, and must not be
+    // overwritten by remote changes until the markers are resolved. Only files
+    // with an open markers record count; notes may quote markers on purpose.
+    const withMarkers = await this.findConflictMarkers(planned, await this.stateStore.loadConflicts());
+    for (const path of withMarkers) {
+      await this.log("warn", `Not syncing ${path}: it still contains conflict markers.`);
+    }
+    const runnable = new Set(
+      planned.filter((op) => {
+        const path = this.localFilePath(op);
+        return !path || !withMarkers.has(path);
+      })
+    );
+    const ops = plan.ops.filter((op) => runnable.has(op));
+    const conflicts = plan.conflicts.filter((op) => runnable.has(op));
+    const skippedOps = [...plan.ops, ...plan.conflicts].filter((op) => !runnable.has(op));
+    const skippedPaths = skippedOps.flatMap(opPaths);
+    // The next incremental fetch only lists changes after the recorded commit,
+    // so skipped remote changes keep the previous one to be planned again.
+    const skipsRemoteChanges = skippedOps.some((op) => REMOTE_CHANGE_OPS.has(op.type));
+
+    if (conflicts.length > 0 && this.remoteIndexer.resolveLastCommits) {
+      const conflictPaths = conflicts.flatMap((op) => (op.type === "conflict" ? [op.path] : []));
+      await this.remoteIndexer.resolveLastCommits(remote, conflictPaths, config.branch);
+    }
+
+    const { merged, upToDate, marked, conflictingKeys } = await this.mergeConflicts(
+      conflicts,
+      baseline,
+      local,
+      remote,
+      config
+    );
+    const unmerged = conflicts.filter((op) => op.type !== "conflict" || !merged.has(op.path));
+
+    const { resolvedOps, conflictRecords } = this.resolver.resolve(
+      unmerged,
+      config.conflictPolicy,
+      {
+        rules: config.conflictRules,
+        local,
+        remote,
+        newestWinsToleranceSeconds: config.newestWinsToleranceSeconds,
       }
-      const { resolvedOps, conflictRecords } = this.resolver.resolve(
-        conflicts,
-        config.conflictPolicy
-      );
+    );
 
-      const finalOps = ops.filter((op) => op.type !== "conflict").concat(resolvedOps);
+    const mergedOps = [...merged]
+      .filter((path) => !upToDate.has(path))
+      .map((path): SyncOp => ({ type: "push_update", path }));
+    const finalOps = ops.filter((op) => op.type !== "conflict").concat(resolvedOps, mergedOps);
 
-      await this.stateStore.saveConflicts(conflictRecords);
+    const records = conflictRecords.map((record) => {
+      const keys = conflictingKeys.get(record.path);
+      return this.withVersions(keys ? { ...record, conflictingKeys: keys } : record, local, remote);
+    });
+    records.push(...(await this.carryOverMarkerRecords(records)));
+    await this.stateStore.saveConflicts(records);
+
+    // Stage 3: Executing
+    this.reportProgress(config, {
+      stage: "executing",
+      message: `Executing ${finalOps.length} operations...`,
+      total: finalOps.length,
+    });
 
-      // Stage 3: Executing
-      this.reportProgress(config, {
-        stage: "executing",
-        message: `Executing ${finalOps.length} operations...`,
-        total: finalOps.length,
-      });
+    // Conflicts the markers policy could not write into a text file keep both
+    // versions, as do newestWins conflicts too close to call.
+    const keepBothPaths = new Set(
+      conflictRecords
+        .filter(
+          (record) =>
+            record.policy === "keepBoth" ||
+            (record.policy === "markers" && !marked.has(record.path)) ||
+            record.decision?.winner === "both"
+        )
+        .map((record) => record.path)
+    );
+    const keepBoth = unmerged.filter((op) => op.type === "conflict" && keepBothPaths.has(op.path));
+    await this.executeOps(finalOps, keepBoth, config, local, remote);
 
-      await this.executeOps(finalOps, conflicts, config, local, remote);
+    // Stage 4: Saving baseline
+    this.reportProgress(config, {
+      stage: "saving",
+      message: "Saving sync state...",
+    });
 
-      // Stage 4: Saving baseline
-      this.reportProgress(config, {
-        stage: "saving",
-        message: "Saving sync state...",
-      });
+    // After operations, get fresh remote state and rescan local (with cache optimization)
+    const headInfo = await this.gitClient.getCommitInfo(config.branch);
+    const newCommitSha = headInfo.sha;
 
-      // After operations, get fresh remote state and rescan local (with cache optimization)
-      const newCommitSha = await this.gitClient.getCommitInfo(config.branch).then((info) => info.sha);
+    // Fetch fresh remote index to get new SHAs after push operations
+    // Use null baseline to force full fetch (since remote state changed)
+    const syncScope = new SyncScope(config.rootPath, ignorePatterns, this.pathMapper);
+    const updatedRemote = syncScope.filter(
+      await this.remoteIndexer.fetchIndex(config.owner, config.repo, config.branch, null)
+    );
 
-      // Fetch fresh remote index to get new SHAs after push operations
-      // Use null baseline to force full fetch (since remote state changed)
-      const updatedRemote = await this.remoteIndexer.fetchIndex(
-        config.owner,
-        config.repo,
-        config.branch,
-        null
-      );
+    // Rescan local with baseline optimization (reuses hashes for unchanged files)
+    const updatedLocal = await this.localIndexer.scan(config.rootPath, ignorePatterns);
+
+    // Build baseline from updated state
+    this.carryOverCommitInfo(updatedRemote, remote, baseline, headInfo.date);
+    const baselineSnapshot = this.buildBaseline(
+      updatedLocal,
+      updatedRemote,
+      skipsRemoteChanges ? baseline?.commitSha : newCommitSha
+    );
+    for (const path of skippedPaths) {
+      const previous = baseline?.entries[path];
+      if (previous) {
+        baselineSnapshot.entries[path] = previous;
+      } else {
+        delete baselineSnapshot.entries[path];
+      }
+    }
+    await this.stateStore.saveBaseline(baselineSnapshot, plan.target);
+    await this.log("info", "Sync completed.");
+  }
 
-      // Rescan local with baseline optimization (reuses hashes for unchanged files)
-      const updatedLocal = await this.localIndexer.scan(config.rootPath, config.ignorePatterns);
+  /**
+   * Merges modify-modify conflicts on text files with the baseline version both
+   * sides started from. Merged files are written to the vault and returned so
+   * they get pushed, unless the result already is the remote version (upToDate);
+   * conflicts with overlapping edits are left to the policy.
+   * Under the markers policy those are written to the vault with conflict
+   * markers instead, and returned as marked.
+   */
+  private async mergeConflicts(
+    conflicts: SyncOp[],
+    baseline: SyncBaseline | null,
+    local: LocalIndex,
+    remote: RemoteIndex,
+    config: SyncConfig
+  ): Promise<{
+    merged: Set<string>;
+    upToDate: Set<string>;
+    marked: Set<string>;
+    conflictingKeys: Map<string, string[]>;
+  }> {
+    const merged = new Set<string>();
+    const upToDate = new Set<string>();
+    const marked = new Set<string>();
+    const conflictingKeys = new Map<string, string[]>();
+    const policies = new ConflictPolicyRules(config.conflictRules, config.conflictPolicy);
+    for (const conflict of conflicts) {
+      if (conflict.type !== "conflict" || conflict.reason !== "modify-modify") {
+        continue;
+      }
+      const useMarkers = policies.policyFor(conflict.path) === "markers";
+      const baseSha = baseline?.entries[conflict.path]?.sha;
+      const file = this.app.vault.getAbstractFileByPath(normalizePath(conflict.path));
+      if (
+        !(file instanceof TFile) ||
+        !this.resolver.canMerge?.(conflict.path, config.mergeDriverRules)
+      ) {
+        continue;
+      }
+      if (!baseSha && !useMarkers) {
+        continue;
+      }
 
-      // Build baseline from updated state
-      const baselineSnapshot = this.buildBaseline(updatedLocal, updatedRemote, newCommitSha);
-      await this.stateStore.saveBaseline(baselineSnapshot);
-      await this.log("info", "Sync completed.");
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      await this.log("error", `Sync failed: ${message}`);
-      throw error;
+      try {
+        const base = baseSha
+          ? Buffer.from((await this.gitClient.getBlob(baseSha)).content, "base64")
+          : null;
+        const remoteContent = Buffer.from(
+          await this.downloadRemote(conflict.path, config.branch, remote),
+          "base64"
+        );
+        const localContent = new Uint8Array(await this.app.vault.readBinary(file));
+
+        const result =
+          base === null
+            ? null
+            : await this.resolver.merge?.(
+                {
+                  path: conflict.path,
+                  base,
+                  local: localContent,
+                  remote: remoteContent,
+                  localTime: local[conflict.path]?.mtime,
+                  remoteTime: remote[conflict.path]?.lastCommitTime || undefined,
+                },
+                config.mergeDriverRules
+              );
+        if (result?.conflictingKeys?.length) {
+          conflictingKeys.set(conflict.path, result.conflictingKeys);
+        }
+        if (result?.content) {
+          await this.app.vault.modifyBinary(file, new Uint8Array(result.content).buffer);
+          merged.add(conflict.path);
+          if ((await gitBlobSha(result.content)) === remote[conflict.path]?.sha) {
+            upToDate.add(conflict.path);
+            await this.log("info", `Merged ${conflict.path} into the remote version.`);
+          } else {
+            await this.log("info", `Merged local and remote changes of ${conflict.path}.`);
+          }
+          continue;
+        }
+
+        const decoder = new TextDecoder();
+        const withMarkers = useMarkers
+          ? this.resolver.mergeWithMarkers?.(
+              conflict.path,
+              base === null ? null : decoder.decode(base),
+              decoder.decode(localContent),
+              decoder.decode(remoteContent)
+            )
+          : null;
+        if (withMarkers == null) {
+          await this.log("info", `Merge of ${conflict.path} has overlapping edits.`);
+          continue;
+        }
+        await this.app.vault.modify(file, withMarkers);
+        marked.add(conflict.path);
+        await this.log("warn", `Wrote conflict markers into ${conflict.path}.`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.log("warn", `Merge of ${conflict.path} failed: ${message}`);
+      }
+    }
+    return { merged, upToDate, marked, conflictingKeys };
+  }
+
+  /**
+   * Returns the local files these ops read or replace that have an open markers
+   * conflict and still contain conflict markers.
+   */
+  private async findConflictMarkers(ops: SyncOp[], records: ConflictRecord[]): Promise<Set<string>> {
+    const marked = new Set(
+      records.filter((record) => record.policy === "markers").map((record) => record.path)
+    );
+    const found = new Set<string>();
+    for (const op of ops) {
+      const path = this.localFilePath(op);
+      if (path && marked.has(path) && (await this.hasLocalConflictMarkers(path))) {
+        found.add(path);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * The vault path whose content an op uploads, merges, overwrites or
+   * deletes, if any.
+   */
+  private localFilePath(op: SyncOp): string | null {
+    switch (op.type) {
+      case "push_new":
+      case "push_update":
+      case "pull_update":
+      case "pull_delete":
+      case "conflict":
+        return op.path;
+      case "rename_local":
+        return op.to;
+      case "rename_remote":
+        return op.from;
+      default:
+        return null;
+    }
+  }
+
+  private async hasLocalConflictMarkers(path: string): Promise<boolean> {
+    if (!isTextPath(path)) {
+      return false;
+    }
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+    return file instanceof TFile && hasConflictMarkers(await this.app.vault.read(file));
+  }
+
+  /**
+   * Keeps the records of earlier marker conflicts whose files still contain
+   * markers, so they stay listed until the markers are resolved.
+   */
+  private async carryOverMarkerRecords(current: ConflictRecord[]): Promise<ConflictRecord[]> {
+    const listed = new Set(current.map((record) => record.path));
+    const kept: ConflictRecord[] = [];
+    for (const record of await this.stateStore.loadConflicts()) {
+      if (
+        record.policy === "markers" &&
+        !listed.has(record.path) &&
+        (await this.hasLocalConflictMarkers(record.path))
+      ) {
+        kept.push(record);
+      }
     }
+    return kept;
+  }
+
+  private decodeText(contentBase64: string): string {
+    return Buffer.from(contentBase64, "base64").toString("utf8");
+  }
+
+  /**
+   * Describes a first sync for the user by comparing both sides by content.
+   * Files with the same content on both sides are linked without any writes.
+   */
+  private summarizeFirstSync(
+    local: LocalIndex,
+    remote: RemoteIndex,
+    scope: SyncScopeOptions
+  ): FirstSyncSummary {
+    const { ops, conflicts } = this.planner.plan(local, remote, null, scope, "mergeByContent");
+    const inScope = new SyncScope(scope.rootPath, scope.ignorePatterns, this.pathMapper).filter(remote);
+    const pathsOf = (planned: SyncOp[], type: SyncOp["type"]) =>
+      planned.flatMap((op) => (op.type === type && "path" in op ? [op.path] : []));
+
+    const differing = pathsOf(conflicts, "conflict");
+    const differingPaths = new Set(differing);
+    const identical = Object.keys(local).filter(
+      (path) => inScope[path] && !differingPaths.has(path)
+    );
+    return {
+      identical: identical.length,
+      localOnly: pathsOf(ops, "push_new"),
+      remoteOnly: pathsOf(ops, "pull_new"),
+      differing,
+    };
   }
 
   private async executeOps(
     ops: SyncOp[],
-    conflicts: SyncOp[],
+    keepBoth: SyncOp[],
     config: SyncConfig,
     _local: LocalIndex,
-    _remote: RemoteIndex
+    remote: RemoteIndex
   ): Promise<void> {
     const failures: string[] = [];
     const renameRemote = ops.filter((op) => op.type === "rename_remote") as Array<{
@@ -204,7 +621,7 @@ export class DefaultSyncEngine implements SyncEngine {
 
     for (const op of pullUpdates) {
       await this.runOp(`${op.type} ${op.path}`, failures, () =>
-        this.pullRemoteFile(op.path, config.branch)
+        this.pullRemoteFile(op.path, config.branch, remote)
       );
     }
 
@@ -233,9 +650,9 @@ export class DefaultSyncEngine implements SyncEngine {
       );
     }
 
-    if (config.conflictPolicy === "keepBoth") {
+    if (keepBoth.length > 0) {
       await this.runOp("keepBoth_conflicts", failures, () =>
-        this.applyKeepBothConflicts(conflicts, config)
+        this.applyKeepBothConflicts(keepBoth, config, remote)
       );
     }
 
@@ -266,9 +683,117 @@ export class DefaultSyncEngine implements SyncEngine {
     await this.app.fileManager.trashFile(abstractFile);
   }
 
-  private async pullRemoteFile(path: string, branch: string): Promise<void> {
+  /**
+   * Checks that a baseline from before baselines were keyed belongs to the
+   * branch being synced: its commit must be in the branch's history. Planning
+   * against another target's baseline would delete everything that target
+   * lacks.
+   */
+  private async isOnBranch(baseline: SyncBaseline, branch: string): Promise<boolean> {
+    if (!baseline.commitSha) {
+      return false;
+    }
+    try {
+      const { status } = await this.gitClient.compareCommits(baseline.commitSha, branch);
+      return status === "ahead" || status === "identical";
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.log("warn", `Could not find the last synced commit on ${branch}: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Decides how to plan a sync that has no baseline for its target. When the
+   * profile has synced with another repository or branch before, the user must
+   * choose, since merging by content could spread stale files to the new target.
+   */
+  private async chooseInitialStrategy(
+    config: SyncConfig,
+    target: string,
+    unverifiedLegacy = false
+  ): Promise<InitialSyncStrategy | undefined> {
+    if (config.initialStrategy) {
+      return config.initialStrategy;
+    }
+
+    const previousTargets = [
+      ...((await this.stateStore.listBaselineTargets?.()) ?? []),
+      ...(unverifiedLegacy ? [LEGACY_TARGET_LABEL] : []),
+    ];
+    if (previousTargets.length === 0) {
+      return undefined;
+    }
+
+    await this.log(
+      "warn",
+      `No baseline for ${target}; previous syncs used ${previousTargets.join(", ")}.`
+    );
+    const strategy = config.onTargetChanged
+      ? await config.onTargetChanged(previousTargets, target)
+      : null;
+    if (!strategy) {
+      throw new Error(
+        "Repository or branch changed since the last sync. Choose how to link the new target before syncing."
+      );
+    }
+    await this.log("info", `Linking ${target} with strategy ${strategy}.`);
+    return strategy;
+  }
+
+  /**
+   * Collects ignore rules from the remote ignore files, then the local ones,
+   * then the configured patterns. Later rules take precedence, so settings
+   * patterns such as the config directory cannot be re-included by a file.
+   */
+  private async loadIgnorePatterns(config: SyncConfig, remote: RemoteIndex): Promise<string[]> {
+    const files = config.useGitignore ? [GIT_IGNORE_FILE, SYNC_IGNORE_FILE] : [SYNC_IGNORE_FILE];
+    const patterns: string[] = [];
+
+    // The repository's ignore files sit at its root, which path mappings can
+    // place in a vault folder; their anchored rules are moved along with it.
+    for (const file of files) {
+      const path = this.pathMapper.toVault(file);
+      if (path !== null && remote[path]) {
+        const content = await this.downloadRemote(path, config.branch, remote);
+        const rules = IgnoreMatcher.parseFile(this.decodeText(content));
+        patterns.push(
+          ...(this.pathMapper.isIdentity()
+            ? rules
+            : mapIgnoreRules(rules, (repoPath) => this.pathMapper.toVault(repoPath)))
+        );
+      }
+    }
+
+    // Dotfiles are not part of the vault's file index, so read them through the adapter.
+    const adapter = this.app.vault.adapter;
+    for (const file of files) {
+      if (await adapter.exists(file)) {
+        patterns.push(...IgnoreMatcher.parseFile(await adapter.read(file)));
+      }
+    }
+
+    return [...patterns, ...config.ignorePatterns];
+  }
+
+  /**
+   * Downloads a remote file, by blob SHA when the remote index knows it. The blobs
+   * endpoint serves files up to 100 MB, while the contents endpoint stops at 1 MB.
+   */
+  private async downloadRemote(path: string, branch: string, remote: RemoteIndex): Promise<string> {
+    const sha = remote[path]?.sha;
+    if (sha) {
+      const { content } = await this.gitClient.getBlob(sha);
+      return content;
+    }
+
+    const { content } = await this.gitClient.getFile(this.pathMapper.requireRepo(path), branch);
+    return content;
+  }
+
+  private async pullRemoteFile(path: string, branch: string, remote: RemoteIndex): Promise<void> {
     const normalized = normalizePath(path);
-    const { content } = await this.gitClient.getFile(normalized, branch);
+    const content = await this.downloadRemote(path, branch, remote);
     const buffer = Buffer.from(content, "base64");
     await this.ensureParentFolder(normalized);
     const existing = this.app.vault.getAbstractFileByPath(normalized);
@@ -280,9 +805,13 @@ export class DefaultSyncEngine implements SyncEngine {
     await this.app.vault.createBinary(normalized, buffer);
   }
 
-  private async pullRemoteCopy(path: string, targetPath: string, branch: string): Promise<void> {
-    const normalized = normalizePath(path);
-    const { content } = await this.gitClient.getFile(normalized, branch);
+  private async pullRemoteCopy(
+    path: string,
+    targetPath: string,
+    branch: string,
+    remote: RemoteIndex
+  ): Promise<void> {
+    const content = await this.downloadRemote(path, branch, remote);
     const buffer = Buffer.from(content, "base64");
     await this.ensureParentFolder(targetPath);
     await this.app.vault.createBinary(targetPath, buffer);
@@ -297,9 +826,10 @@ export class DefaultSyncEngine implements SyncEngine {
     await this.pushLocalFile(toPath, remote, config);
     const remoteEntry = remote[fromPath];
     if (remoteEntry?.sha) {
+      const repoPath = this.pathMapper.requireRepo(fromPath);
       await this.gitClient.deleteFile(
-        fromPath,
-        `sync: delete ${fromPath}`,
+        repoPath,
+        `sync: delete ${repoPath}`,
         remoteEntry.sha,
         config.branch
       );
@@ -316,7 +846,8 @@ export class DefaultSyncEngine implements SyncEngine {
       return;
     }
 
-    await this.gitClient.deleteFile(path, `sync: delete ${path}`, remoteEntry.sha, config.branch);
+    const repoPath = this.pathMapper.requireRepo(path);
+    await this.gitClient.deleteFile(repoPath, `sync: delete ${repoPath}`, remoteEntry.sha, config.branch);
   }
 
   private async pushLocalFile(
@@ -333,10 +864,11 @@ export class DefaultSyncEngine implements SyncEngine {
     const data = await this.app.vault.readBinary(abstractFile);
     const contentBase64 = Buffer.from(data).toString("base64");
     const remoteEntry = remote[path];
+    const repoPath = this.pathMapper.requireRepo(normalized);
     await this.gitClient.putFile(
-      normalized,
+      repoPath,
       contentBase64,
-      `sync: update ${path}`,
+      `sync: update ${repoPath}`,
       remoteEntry?.sha,
       config.branch
     );
@@ -364,7 +896,12 @@ export class DefaultSyncEngine implements SyncEngine {
         const data = await this.app.vault.readBinary(abstractFile);
         const contentBase64 = Buffer.from(data).toString("base64");
         const blobSha = await this.gitClient.createBlob(contentBase64);
-        entries.push({ path: normalized, sha: blobSha, mode: "100644", type: "blob" });
+        entries.push({
+          path: this.pathMapper.requireRepo(normalized),
+          sha: blobSha,
+          mode: "100644",
+          type: "blob",
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         console.error(`batchPush: Failed to process file ${normalized}: ${message}`);
@@ -373,7 +910,12 @@ export class DefaultSyncEngine implements SyncEngine {
     }
 
     for (const path of deletes) {
-      entries.push({ path: normalizePath(path), sha: null, mode: "100644", type: "blob" });
+      entries.push({
+        path: this.pathMapper.requireRepo(path),
+        sha: null,
+        mode: "100644",
+        type: "blob",
+      });
     }
 
     if (entries.length === 0) {
@@ -427,7 +969,11 @@ export class DefaultSyncEngine implements SyncEngine {
     }
   }
 
-  private async applyKeepBothConflicts(conflicts: SyncOp[], config: SyncConfig): Promise<void> {
+  private async applyKeepBothConflicts(
+    conflicts: SyncOp[],
+    config: SyncConfig,
+    remote: RemoteIndex
+  ): Promise<void> {
     for (const conflict of conflicts) {
       if (conflict.type !== "conflict") {
         continue;
@@ -441,7 +987,7 @@ export class DefaultSyncEngine implements SyncEngine {
       const conflictPath = this.nextConflictPath(conflict.path, tag);
 
       if (reason === "modify-modify") {
-        await this.pullRemoteCopy(conflict.path, conflictPath, config.branch);
+        await this.pullRemoteCopy(conflict.path, conflictPath, config.branch, remote);
         await this.log(
           "warn",
           `Conflict keepBoth: remote copy saved as ${conflictPath}`
@@ -450,7 +996,7 @@ export class DefaultSyncEngine implements SyncEngine {
       }
 
       if (reason === "delete-modify-local") {
-        await this.pullRemoteCopy(conflict.path, conflictPath, config.branch);
+        await this.pullRemoteCopy(conflict.path, conflictPath, config.branch, remote);
         await this.log(
           "warn",
           `Conflict keepBoth: remote copy saved as ${conflictPath}`
@@ -467,7 +1013,7 @@ export class DefaultSyncEngine implements SyncEngine {
       }
 
       if (reason === "local-missing-remote") {
-        await this.pullRemoteFile(conflict.path, config.branch);
+        await this.pullRemoteFile(conflict.path, config.branch, remote);
         await this.log(
           "warn",
           `Conflict keepBoth: remote restored ${conflict.path}`
@@ -501,6 +1047,26 @@ export class DefaultSyncEngine implements SyncEngine {
     return `${year}${month}${day}-${hours}${minutes}`;
   }
 
+  private withVersions(
+    record: ConflictRecord,
+    local: LocalIndex,
+    remote: RemoteIndex
+  ): ConflictRecord {
+    const localEntry = local[record.path];
+    const remoteEntry = remote[record.path];
+    return {
+      ...record,
+      localVersion: localEntry ? { hash: localEntry.hash, mtime: localEntry.mtime } : undefined,
+      remoteVersion: remoteEntry
+        ? {
+            sha: remoteEntry.sha,
+            lastCommitTime: remoteEntry.lastCommitTime,
+            author: remoteEntry.lastCommitAuthor,
+          }
+        : undefined,
+    };
+  }
+
   private buildBaseline(
     local: LocalIndex,
     remote: RemoteIndex,
@@ -518,15 +1084,57 @@ export class DefaultSyncEngine implements SyncEngine {
       entries[path] = {
         path,
         hash: localEntry?.hash,
+        blobSha: localEntry?.blobSha,
         mtime: localEntry?.mtime,
+        size: localEntry?.size,
         sha: remoteEntry?.sha,
         lastCommitTime: remoteEntry?.lastCommitTime,
+        lastCommitAuthor: remoteEntry?.lastCommitAuthor,
       };
     }
 
     return { entries, commitSha };
   }
 
+  /**
+   * The post-sync listing has no commit data. Reuse what is known for blobs that
+   * did not change; blobs new since the plan were written by this sync's commit.
+   */
+  private carryOverCommitInfo(
+    updated: RemoteIndex,
+    previous: RemoteIndex,
+    baseline: SyncBaseline | null,
+    headDate: string
+  ): void {
+    const parsedHead = Date.parse(headDate);
+    const headTime = Number.isFinite(parsedHead) ? parsedHead : 0;
+    for (const entry of Object.values(updated)) {
+      if (entry.lastCommitTime) {
+        continue;
+      }
+
+      const known = previous[entry.path];
+      const base = baseline?.entries[entry.path];
+      if (known?.sha === entry.sha && known.lastCommitTime) {
+        entry.lastCommitTime = known.lastCommitTime;
+        entry.lastCommitAuthor = known.lastCommitAuthor;
+      } else if (base?.sha === entry.sha && base.lastCommitTime) {
+        entry.lastCommitTime = base.lastCommitTime;
+        entry.lastCommitAuthor = base.lastCommitAuthor;
+      } else if (known?.sha !== entry.sha) {
+        entry.lastCommitTime = headTime;
+      }
+    }
+  }
+
+  private describeRemoteChange(entry: RemoteIndex[string] | undefined): string {
+    if (!entry?.lastCommitTime) {
+      return "";
+    }
+    const when = new Date(entry.lastCommitTime).toISOString();
+    return entry.lastCommitAuthor ? ` (by ${entry.lastCommitAuthor} at ${when})` : ` (at ${when})`;
+  }
+
   private buildIncrementalBaseline(
     local: LocalIndex,
     remote: RemoteIndex,
@@ -550,6 +1158,7 @@ export class DefaultSyncEngine implements SyncEngine {
         path,
         hash: localEntry?.hash,
         mtime: localEntry?.mtime,
+        size: localEntry?.size,
         sha: remoteEntry?.sha,
         lastCommitTime: remoteEntry?.lastCommitTime,
       };
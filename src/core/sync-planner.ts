@@ -1,20 +1,39 @@
 import type {
+  InitialSyncStrategy,
   LocalIndex,
   RemoteIndex,
   SyncBaseline,
   SyncOp,
+  SyncScopeOptions,
 } from "../types/sync-types";
 import type { SyncPlanner } from "../types/interfaces";
+import { SyncScope } from "./sync-scope";
+import { PathMapper } from "./path-mapper";
 
 export class DefaultSyncPlanner implements SyncPlanner {
   plan(
     local: LocalIndex,
     remote: RemoteIndex,
-    baseline: SyncBaseline | null
+    baseline: SyncBaseline | null,
+    scope?: SyncScopeOptions,
+    initialStrategy: InitialSyncStrategy = "mergeByContent"
   ): { ops: SyncOp[]; conflicts: SyncOp[] } {
     const ops: SyncOp[] = [];
     const conflicts: SyncOp[] = [];
-    const baselineEntries = baseline?.entries ?? {};
+    let baselineEntries = baseline?.entries ?? {};
+
+    // Paths outside the root or matched by ignore rules are invisible to the
+    // plan, whichever side they exist on.
+    if (scope) {
+      const syncScope = new SyncScope(
+        scope.rootPath,
+        scope.ignorePatterns,
+        new PathMapper(scope.pathMappings)
+      );
+      local = syncScope.filter(local);
+      remote = syncScope.filter(remote);
+      baselineEntries = syncScope.filter(baselineEntries);
+    }
 
     // Safety check: detect mass remote deletion
     const baselineFileCount = Object.keys(baselineEntries).length;
@@ -74,6 +93,33 @@ export class DefaultSyncPlanner implements SyncPlanner {
       const remoteEntry = remote[path];
       const baseEntry = baselineEntries[path];
 
+      // Identical content on both sides is in sync whatever the baseline says.
+      if (localEntry && remoteEntry && this.hasSameContent(localEntry, remoteEntry)) {
+        continue;
+      }
+
+      if (!baseEntry && initialStrategy === "adoptRemote") {
+        if (localEntry && !remoteEntry) {
+          ops.push({ type: "pull_delete", path });
+        } else if (!localEntry && remoteEntry) {
+          ops.push({ type: "pull_new", path });
+        } else if (localEntry && remoteEntry) {
+          ops.push({ type: "pull_update", path });
+        }
+        continue;
+      }
+
+      if (!baseEntry && initialStrategy === "pushLocal") {
+        if (localEntry && !remoteEntry) {
+          ops.push({ type: "push_new", path });
+        } else if (!localEntry && remoteEntry) {
+          ops.push({ type: "push_delete", path });
+        } else if (localEntry && remoteEntry) {
+          ops.push({ type: "push_update", path });
+        }
+        continue;
+      }
+
       if (!baseEntry) {
         if (localEntry && !remoteEntry) {
           ops.push({ type: "push_new", path });
@@ -122,6 +168,13 @@ export class DefaultSyncPlanner implements SyncPlanner {
     return { ops, conflicts };
   }
 
+  private hasSameContent(
+    localEntry: LocalIndex[string],
+    remoteEntry: RemoteIndex[string]
+  ): boolean {
+    return Boolean(localEntry.blobSha) && localEntry.blobSha === remoteEntry.sha;
+  }
+
   private hasLocalChanged(
     localEntry: LocalIndex[string],
     baseEntry: SyncBaseline["entries"][string]
@@ -145,8 +198,10 @@ export class DefaultSyncPlanner implements SyncPlanner {
       return true;
     }
 
+    // Full tree listings report 0 for unknown commit times; only compare real ones.
     if (
       baseEntry.lastCommitTime &&
+      remoteEntry.lastCommitTime &&
       baseEntry.lastCommitTime !== remoteEntry.lastCommitTime
     ) {
       return true;
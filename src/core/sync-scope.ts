@@ -0,0 +1,49 @@
+import { normalizePath } from "obsidian";
+import { IgnoreMatcher } from "./ignore-matcher";
+import type { PathMapper } from "./path-mapper";
+
+/**
+ * The set of paths a sync covers: everything under the root path that the
+ * ignore rules do not exclude and any path mappings map to the repo.
+ */
+export class SyncScope {
+  private rootPath: string;
+  private ignore: IgnoreMatcher;
+  private pathMapper: PathMapper | null;
+
+  constructor(rootPath: string, ignorePatterns: string[], pathMapper: PathMapper | null = null) {
+    this.rootPath = rootPath.trim() === "" ? "" : normalizePath(rootPath.trim());
+    this.ignore = new IgnoreMatcher(ignorePatterns);
+    this.pathMapper = pathMapper;
+  }
+
+  includes(path: string): boolean {
+    if (this.pathMapper && this.pathMapper.toRepo(path) === null) {
+      return false;
+    }
+    return this.isUnderRoot(path) && !this.ignore.isIgnored(path);
+  }
+
+  filter<T>(entries: Record<string, T>): Record<string, T> {
+    const result: Record<string, T> = {};
+    for (const [path, entry] of Object.entries(entries)) {
+      if (this.includes(path)) {
+        result[path] = entry;
+      }
+    }
+    return result;
+  }
+
+  private isUnderRoot(path: string): boolean {
+    if (this.rootPath === "") {
+      return true;
+    }
+
+    const normalized = normalizePath(path);
+    if (normalized === this.rootPath) {
+      return true;
+    }
+
+    return normalized.startsWith(`${this.rootPath}/`);
+  }
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_API_BASE_URL } from "../clients/github-endpoint";
+import type { SyncConfig } from "../types/sync-types";
+
+/**
+ * Identifies the repository and branch a baseline was recorded against, e.g.
+ * `api.github.com/octo/notes@main`. Owner and repository names are not case
+ * sensitive on GitHub; branch names are.
+ */
+export function syncTargetKey(config: Pick<SyncConfig, "apiBaseUrl" | "owner" | "repo" | "branch">): string {
+  const host = new URL(config.apiBaseUrl || DEFAULT_API_BASE_URL).host.toLowerCase();
+  return `${host}/${config.owner.toLowerCase()}/${config.repo.toLowerCase()}@${config.branch}`;
+}
@@ -0,0 +1,205 @@
+const TEXT_EXTENSIONS = new Set(["md", "markdown", "txt"]);
+
+// Upper bound for the line comparison table; larger edits are left to the
+// conflict policy instead of stalling the sync.
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type MergeChunk =
+  | { kind: "resolved"; lines: string[] }
+  | { kind: "conflict"; base: string[]; local: string[]; remote: string[] };
+
+export function isTextPath(path: string): boolean {
+  return TEXT_EXTENSIONS.has(fileExtension(path));
+}
+
+/**
+ * Splits text into lines that keep their line endings, so joining them
+ * restores the original exactly.
+ */
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Merges two edits of a common ancestor line by line, as diff3 does. Regions
+ * changed on one side only take that side; regions both sides changed the same
+ * way are kept once; anything else becomes a conflict chunk. Returns null when
+ * the files are too large to compare.
+ */
+export function mergeLines(base: string[], local: string[], remote: string[]): MergeChunk[] | null {
+  const toLocal = matchLines(base, local);
+  const toRemote = matchLines(base, remote);
+  if (!toLocal || !toRemote) {
+    return null;
+  }
+
+  const chunks: MergeChunk[] = [];
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) {
+      return;
+    }
+    const last = chunks[chunks.length - 1];
+    if (last?.kind === "resolved") {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ kind: "resolved", lines: [...lines] });
+    }
+  };
+
+  let b = 0;
+  let l = 0;
+  let r = 0;
+  while (b < base.length || l < local.length || r < remote.length) {
+    // A base line kept at the current position on both sides is stable.
+    if (b < base.length && toLocal.get(b) === l && toRemote.get(b) === r) {
+      pushResolved([base[b]]);
+      b++;
+      l++;
+      r++;
+      continue;
+    }
+
+    // Otherwise everything up to the next line both sides kept was changed on
+    // at least one side.
+    let next = b;
+    while (next < base.length && !(toLocal.has(next) && toRemote.has(next))) {
+      next++;
+    }
+    const localEnd = next < base.length ? (toLocal.get(next) as number) : local.length;
+    const remoteEnd = next < base.length ? (toRemote.get(next) as number) : remote.length;
+
+    const baseLines = base.slice(b, next);
+    const localLines = local.slice(l, localEnd);
+    const remoteLines = remote.slice(r, remoteEnd);
+    if (sameLines(localLines, baseLines)) {
+      pushResolved(remoteLines);
+    } else if (sameLines(remoteLines, baseLines) || sameLines(localLines, remoteLines)) {
+      pushResolved(localLines);
+    } else {
+      chunks.push({ kind: "conflict", base: baseLines, local: localLines, remote: remoteLines });
+    }
+
+    b = next;
+    l = localEnd;
+    r = remoteEnd;
+  }
+
+  return chunks;
+}
+
+/**
+ * Three-way merges text files. Returns null when the edits overlap.
+ */
+export function mergeText(base: string, local: string, remote: string): string | null {
+  const chunks = mergeLines(splitLines(base), splitLines(local), splitLines(remote));
+  if (!chunks || chunks.some((chunk) => chunk.kind === "conflict")) {
+    return null;
+  }
+  return chunks.flatMap((chunk) => (chunk.kind === "resolved" ? chunk.lines : [])).join("");
+}
+
+/**
+ * Three-way merges text files, writing each overlapping hunk between
+ * `<<<<<<< local`, `=======` and `>>>>>>> remote` markers. Without an ancestor
+ * the whole file is one hunk.
+ */
+export function mergeWithMarkers(base: string | null, local: string, remote: string): string {
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const chunks = base === null ? null : mergeLines(splitLines(base), localLines, remoteLines);
+  const output: string[] = [];
+  for (const chunk of chunks ?? [{ kind: "conflict", base: [], local: localLines, remote: remoteLines }]) {
+    if (chunk.kind === "resolved") {
+      output.push(...chunk.lines);
+      continue;
+    }
+    output.push(
+      "<<<<<<< local\n",
+      ...endWithNewline(chunk.local),
+      "=======\n",
+      ...endWithNewline(chunk.remote),
+      ">>>>>>> remote\n"
+    );
+  }
+  return output.join("");
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return /^<{7}(?: |\r?$)/m.test(text) && /^>{7}(?: |\r?$)/m.test(text);
+}
+
+/**
+ * Maps each line of `a` that is part of a longest common subsequence with `b`
+ * to its index in `b`.
+ */
+function matchLines(a: string[], b: string[]): Map<number, number> | null {
+  const matches = new Map<number, number>();
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches.set(start, start);
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches.set(endA, endB);
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > MAX_DIFF_CELLS) {
+    return null;
+  }
+
+  // lengths[i][j] is the LCS length of a[start + i..endA) and b[start + j..endB).
+  const width = cols + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      matches.set(start + i, start + j);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Lower-case extension of the file name, or "" if it has none.
+ */
+export function fileExtension(path: string): string {
+  const name = path.split("/").pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Adds a line ending to the last line if it has none.
+ */
+export function endWithNewline(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith("\n") ? lines : [...lines.slice(0, -1), `${last}\n`];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -1,12 +1,19 @@
 import { normalizePath, TFile, type App } from "obsidian";
-import picomatch from "picomatch";
-import type { LocalIndex, SyncBaseline } from "../types/sync-types";
+import type { LocalIndex, PathMapping, SyncBaseline } from "../types/sync-types";
 import type { LocalIndexer } from "../types/interfaces";
+import type { VaultChangeTracker } from "./vault-change-tracker";
+import type { HashCache } from "../storage/hash-cache";
+import { SyncScope } from "../core/sync-scope";
+import { PathMapper } from "../core/path-mapper";
+import { gitBlobSha } from "../core/git-blob";
 
 export class LocalVaultIndexer implements LocalIndexer {
   private app: App;
   private previousBaseline: SyncBaseline | null = null;
   private maxFileSizeBytes: number = 50 * 1024 * 1024; // 50MB default
+  private changeTracker: VaultChangeTracker | null = null;
+  private hashCache: HashCache | null = null;
+  private pathMapper = new PathMapper();
 
   constructor(app: App) {
     this.app = app;
@@ -20,18 +27,82 @@ export class LocalVaultIndexer implements LocalIndexer {
     this.maxFileSizeBytes = maxSizeMB * 1024 * 1024;
   }
 
+  setChangeTracker(tracker: VaultChangeTracker | null): void {
+    this.changeTracker = tracker;
+  }
+
+  setHashCache(cache: HashCache | null): void {
+    this.hashCache = cache;
+  }
+
+  setPathMappings(mappings: PathMapping[]): void {
+    this.pathMapper = new PathMapper(mappings);
+  }
+
   async scan(rootPath: string, ignorePatterns: string[]): Promise<LocalIndex> {
     const normalizedRoot = rootPath.trim() === "" ? "" : normalizePath(rootPath);
+    const syncScope = new SyncScope(normalizedRoot, ignorePatterns, this.pathMapper);
+    if (!this.changeTracker) {
+      const index = await this.scanAll(syncScope, {});
+      await this.hashCache?.save();
+      return index;
+    }
+
+    // Anything that changes which files are indexed invalidates the stored index.
+    const scope = JSON.stringify([
+      normalizedRoot,
+      ignorePatterns,
+      this.maxFileSizeBytes,
+      this.pathMapper.describe(),
+    ]);
+    const base = this.changeTracker.getIncrementalBase(scope);
+    if (!base) {
+      // A full scan still reuses hashes of files whose mtime and size are unchanged.
+      const dirty = this.changeTracker.getDirty();
+      const index = await this.scanAll(syncScope, this.changeTracker.getEntries());
+      await this.changeTracker.commit(scope, index, { dirty, fullScan: true });
+      await this.hashCache?.save();
+      return index;
+    }
+
+    const index = base.entries;
+    for (const path of base.dirty) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (
+        !(file instanceof TFile) ||
+        !syncScope.includes(file.path) ||
+        file.stat.size > this.maxFileSizeBytes
+      ) {
+        if (!(file instanceof TFile)) {
+          this.hashCache?.delete(path);
+        }
+        delete index[path];
+        continue;
+      }
+
+      const { hash, blobSha } = await this.computeHashOptimized(file, index);
+      index[file.path] = {
+        path: file.path,
+        hash,
+        blobSha,
+        mtime: file.stat.mtime,
+        size: file.stat.size,
+      };
+    }
+
+    await this.changeTracker.commit(scope, index, { dirty: base.dirty });
+    await this.hashCache?.save();
+    return { ...index };
+  }
+
+  private async scanAll(syncScope: SyncScope, previous: LocalIndex): Promise<LocalIndex> {
     const files = this.app.vault.getFiles();
     const index: LocalIndex = {};
     const skippedFiles: string[] = [];
+    this.hashCache?.prune(files.map((file) => file.path));
 
     for (const file of files) {
-      if (!this.isUnderRoot(file, normalizedRoot)) {
-        continue;
-      }
-
-      if (this.isIgnored(file.path, ignorePatterns)) {
+      if (!syncScope.includes(file.path)) {
         continue;
       }
 
@@ -44,10 +115,11 @@ export class LocalVaultIndexer implements LocalIndexer {
         continue;
       }
 
-      const hash = await this.computeHashOptimized(file);
+      const { hash, blobSha } = await this.computeHashOptimized(file, previous);
       index[file.path] = {
         path: file.path,
         hash,
+        blobSha,
         mtime: file.stat.mtime,
         size: file.stat.size,
       };
@@ -60,73 +132,49 @@ export class LocalVaultIndexer implements LocalIndexer {
     return index;
   }
 
-  private async computeHashOptimized(file: TFile): Promise<string> {
-    // Check if we can reuse cached hash from baseline
-    const baseEntry = this.previousBaseline?.entries[file.path];
-    if (baseEntry?.hash && baseEntry.mtime === file.stat.mtime && baseEntry.size === file.stat.size) {
+  private async computeHashOptimized(
+    file: TFile,
+    previous: LocalIndex
+  ): Promise<{ hash: string; blobSha: string }> {
+    const { mtime, size } = file.stat;
+    const cached = this.hashCache?.get(file.path, mtime, size);
+    if (cached) {
+      return { hash: cached.hash, blobSha: cached.blobSha };
+    }
+
+    // Check if we can reuse cached hash from the last scan or the baseline
+    const baseEntry = previous[file.path] ?? this.previousBaseline?.entries[file.path];
+    if (
+      baseEntry?.hash &&
+      baseEntry.blobSha &&
+      baseEntry.mtime === mtime &&
+      baseEntry.size === size
+    ) {
       // File unchanged based on mtime and size, reuse cached hash
-      return baseEntry.hash;
+      const { hash, blobSha } = baseEntry;
+      this.hashCache?.set(file.path, { mtime, size, hash, blobSha });
+      return { hash, blobSha };
     }
 
-    // File is new or changed, compute hash
-    return this.computeHash(file);
+    // File is new or changed, compute hashes from a single read
+    const data = await this.app.vault.readBinary(file);
+    const [hash, blobSha] = await Promise.all([this.sha256(data), gitBlobSha(data)]);
+    this.hashCache?.set(file.path, { mtime, size, hash, blobSha });
+    return { hash, blobSha };
   }
 
   async computeHash(file: TFile): Promise<string> {
     const data = await this.app.vault.readBinary(file);
-    const buffer = new Uint8Array(data);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-    return hashHex;
+    return this.sha256(data);
   }
 
-  private isUnderRoot(file: TFile, rootPath: string): boolean {
-    if (rootPath === "") {
-      return true;
-    }
-
-    const normalized = normalizePath(file.path);
-    if (normalized === rootPath) {
-      return true;
-    }
-
-    return normalized.startsWith(`${rootPath}/`);
+  private async sha256(data: ArrayBuffer): Promise<string> {
+    return this.toHex(await crypto.subtle.digest("SHA-256", data));
   }
 
-  private isIgnored(path: string, ignorePatterns: string[]): boolean {
-    if (ignorePatterns.length === 0) {
-      return false;
-    }
-
-    const normalized = normalizePath(path);
-
-    // Use picomatch for robust glob pattern matching
-    for (const pattern of ignorePatterns) {
-      const trimmed = pattern.trim();
-      if (!trimmed) {
-        continue;
-      }
-
-      // Handle directory patterns (ending with /)
-      if (trimmed.endsWith("/")) {
-        const dirPattern = normalizePath(trimmed);
-        if (normalized.startsWith(dirPattern) || normalized === dirPattern.slice(0, -1)) {
-          return true;
-        }
-      } else {
-        // Use picomatch for advanced glob matching
-        const isMatch = picomatch(normalizePath(trimmed), {
-          dot: true, // Match dotfiles
-          noglobstar: false, // Enable ** for recursive matching
-        });
-
-        if (isMatch(normalized)) {
-          return true;
-        }
-      }
-    }
-
-    return false;
+  private toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
   }
 }
@@ -1,14 +1,39 @@
-import type { RemoteIndex, SyncBaseline } from "../types/sync-types";
+import type {
+  CommitComparison,
+  ComparedCommit,
+  PathMapping,
+  RemoteIndex,
+  SyncBaseline,
+} from "../types/sync-types";
 import type { RemoteIndexer } from "../types/interfaces";
 import type { GitHubApiClient } from "../clients/github-client";
+import { PathMapper } from "../core/path-mapper";
+
+// Upper bounds on extra requests spent on per-file commit attribution.
+const MAX_COMMITS_TO_WALK = 50;
+const MAX_PATH_LOOKUPS = 50;
 
 export class GitHubRemoteIndexer implements RemoteIndexer {
   private client: GitHubApiClient;
+  private lastFetch = "not fetched yet";
+  private pathMapper = new PathMapper();
 
   constructor(client: GitHubApiClient) {
     this.client = client;
   }
 
+  describeLastFetch(): string {
+    return this.lastFetch;
+  }
+
+  /**
+   * The GitHub API works on repo paths; the returned index is keyed by vault
+   * path and leaves out repo files no mapping covers.
+   */
+  setPathMappings(mappings: PathMapping[]): void {
+    this.pathMapper = new PathMapper(mappings);
+  }
+
   async fetchIndex(
     owner: string,
     repo: string,
@@ -19,9 +44,10 @@ export class GitHubRemoteIndexer implements RemoteIndexer {
     void repo;
     if (!baseline?.commitSha) {
       try {
-        return await this.client.listTree(branch);
+        return await this.listFullTree(branch, "full tree");
       } catch (error) {
         if (this.isEmptyRepoError(error)) {
+          this.lastFetch = "empty repository";
           return {};
         }
         throw error;
@@ -29,15 +55,18 @@ export class GitHubRemoteIndexer implements RemoteIndexer {
     }
 
     try {
-      return await this.buildIncrementalIndex(branch, baseline);
-    } catch {
-      return this.client.listTree(branch);
+      const index = this.toVaultIndex(await this.buildIncrementalIndex(branch, baseline));
+      this.lastFetch = `incremental compare from ${baseline.commitSha.slice(0, 7)}`;
+      return index;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.listFullTree(branch, `full tree (incremental compare unusable: ${message})`);
     }
   }
 
   async fetchDiff(baseSha: string, headSha: string): Promise<RemoteIndex> {
     void baseSha;
-    return this.client.listTree(headSha);
+    return this.toVaultIndex(await this.client.listTree(headSha));
   }
 
   private async buildIncrementalIndex(
@@ -45,20 +74,27 @@ export class GitHubRemoteIndexer implements RemoteIndexer {
     baseline: SyncBaseline
   ): Promise<RemoteIndex> {
     const index: RemoteIndex = {};
-    for (const [path, entry] of Object.entries(baseline.entries)) {
-      if (entry.sha) {
+    for (const [vaultPath, entry] of Object.entries(baseline.entries)) {
+      const path = this.pathMapper.toRepo(vaultPath);
+      if (entry.sha && path !== null) {
         index[path] = {
           path,
           sha: entry.sha,
           size: 0,
           lastCommitTime: entry.lastCommitTime ?? 0,
+          lastCommitAuthor: entry.lastCommitAuthor,
         };
       }
     }
 
     const comparison = await this.client.compareCommits(baseline.commitSha ?? "", branch);
-    const time = Date.parse(comparison.headCommitDate);
-    const commitTime = Number.isFinite(time) ? time : 0;
+    if (!comparison.complete) {
+      throw new Error(
+        `comparison incomplete (${comparison.files.length} files, ` +
+          `${comparison.commits.length} of ${comparison.totalCommits} commits)`
+      );
+    }
+    const lastCommits = await this.attributeChanges(comparison);
 
     for (const file of comparison.files) {
       if (file.status === "removed") {
@@ -82,17 +118,107 @@ export class GitHubRemoteIndexer implements RemoteIndexer {
         sha = info.sha;
       }
 
+      // Paths no walked commit touched keep an unknown time, so
+      // resolveLastCommits looks them up instead of trusting the head's date.
+      const lastCommit = lastCommits.get(file.filename);
       index[file.filename] = {
         path: file.filename,
         sha,
         size: 0,
-        lastCommitTime: commitTime,
+        lastCommitTime: lastCommit ? this.parseTime(lastCommit.date) : 0,
+        lastCommitAuthor: lastCommit?.author,
       };
     }
 
     return index;
   }
 
+  /**
+   * Looks up the real last commit for entries whose time is unknown (full tree
+   * listings carry no commit data). Used for conflicting paths only, since it
+   * costs one request per path.
+   */
+  async resolveLastCommits(remote: RemoteIndex, paths: string[], branch: string): Promise<void> {
+    const unresolved = paths
+      .filter((path) => remote[path] && !remote[path].lastCommitTime)
+      .slice(0, MAX_PATH_LOOKUPS);
+    for (const path of unresolved) {
+      const commit = await this.client.getLastCommitForPath(this.pathMapper.requireRepo(path), branch);
+      if (commit) {
+        remote[path] = {
+          ...remote[path],
+          lastCommitTime: this.parseTime(commit.date),
+          lastCommitAuthor: commit.author,
+        };
+      }
+    }
+  }
+
+  /**
+   * Maps each changed path to the newest commit in the compare range that
+   * touched it, walking commits from the head backwards.
+   */
+  private async attributeChanges(comparison: CommitComparison): Promise<Map<string, ComparedCommit>> {
+    const result = new Map<string, ComparedCommit>();
+    const pending = new Set(
+      comparison.files.filter((file) => file.status !== "removed").map((file) => file.filename)
+    );
+    if (pending.size === 0 || comparison.commits.length === 0) {
+      return result;
+    }
+
+    if (comparison.commits.length === 1) {
+      for (const path of pending) {
+        result.set(path, comparison.commits[0]);
+      }
+      return result;
+    }
+
+    const newestFirst = [...comparison.commits].reverse().slice(0, MAX_COMMITS_TO_WALK);
+    for (const commit of newestFirst) {
+      const details = await this.client.getCommitFiles(commit.sha);
+      for (const path of details.files) {
+        if (pending.delete(path)) {
+          result.set(path, { sha: commit.sha, date: details.date, author: details.author });
+        }
+      }
+      if (pending.size === 0) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  private parseTime(date: string): number {
+    const time = Date.parse(date);
+    return Number.isFinite(time) ? time : 0;
+  }
+
+  private async listFullTree(branch: string, label: string): Promise<RemoteIndex> {
+    const index = this.toVaultIndex(await this.client.listTree(branch));
+    const listing = this.client.getLastTreeListing();
+    this.lastFetch = listing?.truncated
+      ? `${label}, recursive listing truncated; walked ${listing.subtreeRequests} subtree requests`
+      : label;
+    return index;
+  }
+
+  private toVaultIndex(index: RemoteIndex): RemoteIndex {
+    if (this.pathMapper.isIdentity()) {
+      return index;
+    }
+
+    const result: RemoteIndex = {};
+    for (const [repoPath, entry] of Object.entries(index)) {
+      const path = this.pathMapper.toVault(repoPath);
+      if (path !== null) {
+        result[path] = { ...entry, path };
+      }
+    }
+    return result;
+  }
+
   private isEmptyRepoError(error: unknown): boolean {
     const message = error instanceof Error ? error.message : String(error);
     return message.includes("Git Repository is empty");
@@ -0,0 +1,122 @@
+import type { LocalIndex, LocalIndexSnapshot } from "../types/sync-types";
+import type { JsonFileStore } from "../storage/json-file-store";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Keeps the last local index together with the paths touched since, fed by
+ * vault create/modify/delete/rename events. LocalVaultIndexer uses it to rehash
+ * only the touched paths; a full scan still runs on the first sync after
+ * startup, periodically, and whenever the sync scope changed or a folder was
+ * moved or deleted.
+ *
+ * Events are only kept in memory; the index is written when a scan commits.
+ */
+export class VaultChangeTracker {
+  private store: JsonFileStore<LocalIndexSnapshot>;
+  private scope: string | null = null;
+  private lastFullScanAt = 0;
+  private entries: LocalIndex = {};
+  private dirty = new Set<string>();
+  private fullScanRequested = false;
+  private fullScanIntervalMs = 24 * HOUR_MS;
+
+  constructor(store: JsonFileStore<LocalIndexSnapshot>) {
+    this.store = store;
+  }
+
+  async load(): Promise<void> {
+    // Files edited while Obsidian was closed, or before the vault finished
+    // loading, produce no events. Their stored entries are only reused by the
+    // full scan when mtime and size still match.
+    this.fullScanRequested = true;
+    const snapshot = await this.store.load();
+    if (!snapshot) {
+      return;
+    }
+
+    this.scope = snapshot.scope;
+    this.lastFullScanAt = snapshot.lastFullScanAt;
+    this.entries = snapshot.entries ?? {};
+    for (const path of snapshot.dirty ?? []) {
+      this.dirty.add(path);
+    }
+  }
+
+  setFullScanIntervalHours(hours: number): void {
+    this.fullScanIntervalMs = Math.max(hours, 0) * HOUR_MS;
+  }
+
+  markChanged(path: string): void {
+    this.dirty.add(path);
+  }
+
+  markRenamed(oldPath: string, newPath: string): void {
+    this.dirty.add(oldPath);
+    this.dirty.add(newPath);
+  }
+
+  requestFullScan(): void {
+    this.fullScanRequested = true;
+  }
+
+  getEntries(): LocalIndex {
+    return { ...this.entries };
+  }
+
+  /**
+   * Returns the previous index and the paths to rehash, or null when the next
+   * scan has to walk the whole vault.
+   */
+  getIncrementalBase(scope: string, now = Date.now()): { entries: LocalIndex; dirty: string[] } | null {
+    if (this.fullScanRequested || this.scope !== scope) {
+      return null;
+    }
+
+    if (now - this.lastFullScanAt >= this.fullScanIntervalMs) {
+      return null;
+    }
+
+    return { entries: { ...this.entries }, dirty: Array.from(this.dirty) };
+  }
+
+  /**
+   * Returns the paths touched since the last commit. A full scan takes this
+   * before it starts and passes it back to commit.
+   */
+  getDirty(): string[] {
+    return Array.from(this.dirty);
+  }
+
+  /**
+   * Stores a finished scan. Only the dirty paths the scan handled are cleared,
+   * so events that arrived while it ran are picked up next time.
+   */
+  async commit(
+    scope: string,
+    entries: LocalIndex,
+    handled: { dirty: string[]; fullScan?: boolean },
+    now = Date.now()
+  ): Promise<void> {
+    for (const path of handled.dirty) {
+      this.dirty.delete(path);
+    }
+    if (handled.fullScan) {
+      this.lastFullScanAt = now;
+      this.fullScanRequested = false;
+    }
+
+    this.scope = scope;
+    this.entries = entries;
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    await this.store.save({
+      scope: this.scope ?? "",
+      lastFullScanAt: this.lastFullScanAt,
+      entries: this.entries,
+      dirty: Array.from(this.dirty),
+    });
+  }
+}
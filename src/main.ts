@@ -1,28 +1,70 @@
-import { Notice, Plugin, TFolder } from "obsidian";
-import type { PluginSettings } from "./types/plugin-settings";
-import { DEFAULT_SETTINGS } from "./types/plugin-settings";
+import { Notice, Plugin, TAbstractFile, TFolder } from "obsidian";
+import type { PluginSettings, SyncProfile } from "./types/plugin-settings";
+import { DEFAULT_PROFILE, DEFAULT_SETTINGS, migrateSettings } from "./types/plugin-settings";
 import { SettingsView } from "./ui/settings-view";
 import { DefaultSyncEngine } from "./core/sync-engine";
 import { DefaultSyncPlanner } from "./core/sync-planner";
 import { DefaultConflictResolver } from "./core/conflict-resolver";
+import { createMergeDriverRegistry } from "./core/merge-drivers";
 import { LocalVaultIndexer } from "./indexers/local-indexer";
 import { GitHubRemoteIndexer } from "./indexers/remote-indexer";
-import { PluginStateStore } from "./storage/state-store";
+import { VaultChangeTracker } from "./indexers/vault-change-tracker";
+import { PluginStateStore, readProfileStates } from "./storage/state-store";
+import { JsonFileStore } from "./storage/json-file-store";
+import { HashCache } from "./storage/hash-cache";
 import { GitHubApiClient } from "./clients/github-client";
+import { RateLimitTracker } from "./clients/rate-limit-tracker";
+import { EtagCache } from "./clients/etag-cache";
+import { isValidApiBaseUrl, normalizeApiBaseUrl } from "./clients/github-endpoint";
 import { SyncLogModal } from "./ui/sync-log-modal";
 import { ConflictModal } from "./ui/conflict-modal";
+import { ProfileSuggestModal } from "./ui/profile-suggest-modal";
+import { RelinkModal } from "./ui/relink-modal";
+import { FirstSyncModal } from "./ui/first-sync-modal";
+import { PlanPreviewModal } from "./ui/plan-preview-modal";
 import { ConflictActionRunner } from "./core/conflict-action-runner";
-import type { ConflictRecord } from "./types/sync-types";
+import type { GitHubApiSyncApi } from "./types/interfaces";
+import type {
+  ConflictRecord,
+  EtagCacheEntry,
+  HashCacheEntry,
+  LocalIndexSnapshot,
+  SyncConfig,
+} from "./types/sync-types";
 
 export default class GitHubApiSyncPlugin extends Plugin {
   settings: PluginSettings = { ...DEFAULT_SETTINGS };
-  private syncIntervalId: number | null = null;
+  private syncIntervalIds = new Map<string, number>();
   private isSyncing = false;
   private syncStatusNotice = null;
   private ribbonIconEl: HTMLElement | null = null;
+  // GitHub counts rate limits per token and host, so profiles sharing both
+  // share a tracker.
+  private rateLimiters = new Map<string, RateLimitTracker>();
+  private etagCache: EtagCache | null = null;
+  // One tracker per profile: each profile's scan clears the paths it handled.
+  private changeTrackers = new Map<string, VaultChangeTracker>();
+  private hashCache: HashCache | null = null;
+  private mergeDrivers = createMergeDriverRegistry();
+
+  /** Public API for other plugins. */
+  readonly api: GitHubApiSyncApi = {
+    registerMergeDriver: (driver) => this.mergeDrivers.register(driver),
+  };
 
   async onload(): Promise<void> {
     await this.loadSettings();
+    for (const profile of this.settings.profiles) {
+      await this.getChangeTracker(profile.id);
+    }
+    this.registerVaultEvents();
+    this.hashCache = new HashCache(
+      new JsonFileStore<Record<string, HashCacheEntry>>(
+        this.app.vault.adapter,
+        this.getPluginFilePath("hash-cache.json")
+      )
+    );
+    await this.hashCache.load();
 
     this.addSettingTab(new SettingsView(this.app, this));
 
@@ -35,12 +77,36 @@ export default class GitHubApiSyncPlugin extends Plugin {
 
     this.addCommand({
       id: "sync-now",
-      name: "Sync now",
+      name: "Sync all profiles",
       callback: async () => {
         await this.runSync();
       },
     });
 
+    this.addCommand({
+      id: "sync-profile",
+      name: "Sync profile...",
+      callback: () => {
+        new ProfileSuggestModal(this, (profile) => {
+          void this.runSync(profile.id);
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "preview-sync",
+      name: "Preview sync...",
+      callback: () => {
+        if (this.settings.profiles.length === 1) {
+          void this.runSync(this.settings.profiles[0].id, true);
+          return;
+        }
+        new ProfileSuggestModal(this, (profile) => {
+          void this.runSync(profile.id, true);
+        }).open();
+      },
+    });
+
     this.addCommand({
       id: "sync-log",
       name: "Show sync log",
@@ -61,69 +127,96 @@ export default class GitHubApiSyncPlugin extends Plugin {
   }
 
   onunload(): void {
-    this.clearSyncInterval();
+    this.clearSyncIntervals();
   }
 
   async loadSettings(): Promise<void> {
-    const data = await this.loadData();
-    this.settings = { ...DEFAULT_SETTINGS, ...(data ?? {}) };
+    // Sync state lives next to the settings in data.json; migrateSettings only
+    // picks settings keys so a later save cannot write back a stale copy of it.
+    this.settings = migrateSettings(await this.loadData());
   }
 
   async saveSettings(): Promise<void> {
-    // Preserve existing state (baseline, conflicts, logs) when saving settings
+    // Preserve existing state (baselines, conflicts, logs) when saving settings
     const existing = await this.loadData();
     await this.saveData({
-      baseline: existing?.baseline ?? null,
-      conflicts: existing?.conflicts ?? [],
-      logs: existing?.logs ?? [],
+      profileState: readProfileStates(existing),
       ...this.settings,
     });
+    for (const tracker of this.changeTrackers.values()) {
+      tracker.setFullScanIntervalHours(this.settings.fullScanIntervalHours);
+    }
     this.scheduleSync();
   }
 
-  async loadSyncLogs() {
-    const store = new PluginStateStore(this);
+  getProfile(profileId: string): SyncProfile | undefined {
+    return this.settings.profiles.find((profile) => profile.id === profileId);
+  }
+
+  getActiveProfile(): SyncProfile {
+    return this.getProfile(this.settings.activeProfileId) ?? this.settings.profiles[0];
+  }
+
+  async addProfile(): Promise<SyncProfile> {
+    const profile: SyncProfile = {
+      ...DEFAULT_PROFILE,
+      ignorePatterns: [...DEFAULT_PROFILE.ignorePatterns],
+      pathMappings: [],
+      id: `profile-${Date.now().toString(36)}`,
+      name: `Profile ${this.settings.profiles.length + 1}`,
+    };
+    this.settings.profiles.push(profile);
+    this.settings.activeProfileId = profile.id;
+    await this.getChangeTracker(profile.id);
+    await this.saveSettings();
+    return profile;
+  }
+
+  async removeProfile(profileId: string): Promise<void> {
+    if (this.settings.profiles.length <= 1) {
+      return;
+    }
+    this.settings.profiles = this.settings.profiles.filter((profile) => profile.id !== profileId);
+    if (this.settings.activeProfileId === profileId) {
+      this.settings.activeProfileId = this.settings.profiles[0].id;
+    }
+    this.changeTrackers.delete(profileId);
+    await this.saveSettings();
+    await new PluginStateStore(this, profileId).clearProfileState();
+    await this.getLocalIndexStore(profileId).remove();
+  }
+
+  async loadSyncLogs(profileId: string) {
+    const store = new PluginStateStore(this, profileId);
     return store.loadLogs();
   }
 
-  async loadConflicts() {
-    const store = new PluginStateStore(this);
+  async loadConflicts(profileId: string) {
+    const store = new PluginStateStore(this, profileId);
     return store.loadConflicts();
   }
 
   async resolveConflict(
+    profileId: string,
     record: ConflictRecord,
     action: "keepLocal" | "keepRemote" | "keepBoth"
   ): Promise<void> {
-    const { token, owner, repo, ignorePatterns } = this.settings;
-    const branch = this.settings.branch.trim() || "main";
-    if (!token || !owner || !repo) {
-      new Notice("Missing GitHub settings (token/owner/repo).");
+    const profile = this.getProfile(profileId);
+    const config = profile ? this.buildSyncConfig(profile) : null;
+    if (!profile || !config) {
       return;
     }
 
-    const client = new GitHubApiClient(token, owner, repo);
+    const client = new GitHubApiClient(config.token, config.owner, config.repo, {
+      baseUrl: config.apiBaseUrl,
+      rateLimiter: this.getRateLimiter(config),
+      etagCache: await this.getEtagCache(),
+    });
     const runner = new ConflictActionRunner(this.app, client);
-    const store = new PluginStateStore(this);
-
-    // Always ignore the config directory (user-configurable, typically .obsidian/)
-    const configDirPattern = `${this.app.vault.configDir}/`;
-    const effectiveIgnorePatterns = ignorePatterns.includes(configDirPattern)
-      ? ignorePatterns
-      : [...ignorePatterns, configDirPattern];
+    const store = new PluginStateStore(this, profile.id);
 
     try {
-      await runner.resolve(record, action, {
-        token,
-        owner,
-        repo,
-        branch,
-        rootPath: this.settings.rootPath,
-        ignorePatterns: effectiveIgnorePatterns,
-        conflictPolicy: this.settings.conflictPolicy,
-        syncIntervalMinutes: this.settings.syncIntervalMinutes ?? undefined,
-        maxFileSizeMB: this.settings.maxFileSizeMB,
-      });
+      await runner.resolve(record, action, config);
 
       const conflicts = await store.loadConflicts();
       const remaining = conflicts.filter(
@@ -133,36 +226,186 @@ export default class GitHubApiSyncPlugin extends Plugin {
       new Notice("Conflict resolved.");
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      new Notice(`Resolve failed: ${message}`);
+      new Notice(`${this.profileLabel(profile)}Resolve failed: ${message}`);
+    } finally {
+      await this.persistEtagCache();
     }
   }
 
-  private scheduleSync(): void {
-    this.clearSyncInterval();
-    const minutes = this.settings.syncIntervalMinutes;
-    if (!minutes || !Number.isFinite(minutes) || minutes <= 0) {
-      return;
+  /**
+   * Prefixes messages with the profile name once there is more than one.
+   */
+  private profileLabel(profile: SyncProfile): string {
+    return this.settings.profiles.length > 1 ? `${profile.name}: ` : "";
+  }
+
+  /**
+   * Validates a profile and turns it into the engine configuration, or shows
+   * what is missing and returns null.
+   */
+  private buildSyncConfig(profile: SyncProfile): SyncConfig | null {
+    const label = this.profileLabel(profile);
+    const { apiBaseUrl, token, owner, repo, ignorePatterns } = profile;
+    if (!token || !owner || !repo) {
+      new Notice(`${label}Missing GitHub settings (token/owner/repo).`);
+      return null;
+    }
+
+    if (!isValidApiBaseUrl(apiBaseUrl)) {
+      new Notice(`${label}GitHub API URL is not a valid http(s) URL.`);
+      return null;
+    }
+
+    // Always ignore the config directory (user-configurable, typically .obsidian/)
+    const configDirPattern = `${this.app.vault.configDir}/`;
+    const effectiveIgnorePatterns = ignorePatterns.includes(configDirPattern)
+      ? ignorePatterns
+      : [...ignorePatterns, configDirPattern];
+
+    return {
+      apiBaseUrl: normalizeApiBaseUrl(apiBaseUrl),
+      token,
+      owner,
+      repo,
+      branch: profile.branch.trim() || "main",
+      rootPath: profile.rootPath,
+      pathMappings: profile.pathMappings,
+      ignorePatterns: effectiveIgnorePatterns,
+      useGitignore: profile.useGitignore,
+      conflictPolicy: profile.conflictPolicy,
+      conflictRules: profile.conflictRules,
+      newestWinsToleranceSeconds: profile.newestWinsToleranceSeconds,
+      mergeDriverRules: profile.mergeDriverRules,
+      syncIntervalMinutes: profile.syncIntervalMinutes ?? undefined,
+      maxFileSizeMB: profile.maxFileSizeMB,
+    };
+  }
+
+  private async getEtagCache(): Promise<EtagCache> {
+    if (!this.etagCache) {
+      this.etagCache = new EtagCache(
+        new JsonFileStore<Record<string, EtagCacheEntry>>(
+          this.app.vault.adapter,
+          this.getPluginFilePath("etag-cache.json")
+        )
+      );
+      await this.etagCache.load();
     }
+    return this.etagCache;
+  }
+
+  private getRateLimiter(config: SyncConfig): RateLimitTracker {
+    const key = `${normalizeApiBaseUrl(config.apiBaseUrl ?? "")}\n${config.token}`;
+    let limiter = this.rateLimiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimitTracker();
+      this.rateLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
 
-    this.syncIntervalId = window.setInterval(() => {
-      void this.runSync();
-    }, minutes * 60 * 1000);
+  private async persistEtagCache(): Promise<void> {
+    await this.etagCache?.save();
   }
 
-  private clearSyncInterval(): void {
-    if (this.syncIntervalId !== null) {
-      window.clearInterval(this.syncIntervalId);
-      this.syncIntervalId = null;
+  private getPluginFilePath(name: string): string {
+    return `${this.app.vault.configDir}/plugins/${this.manifest.id}/${name}`;
+  }
+
+  private async getChangeTracker(profileId: string): Promise<VaultChangeTracker> {
+    const existing = this.changeTrackers.get(profileId);
+    if (existing) {
+      return existing;
     }
+
+    const tracker = new VaultChangeTracker(this.getLocalIndexStore(profileId));
+    this.changeTrackers.set(profileId, tracker);
+    await tracker.load();
+    tracker.setFullScanIntervalHours(this.settings.fullScanIntervalHours);
+    return tracker;
   }
 
-  private async runSync(): Promise<void> {
+  private getLocalIndexStore(profileId: string): JsonFileStore<LocalIndexSnapshot> {
+    return new JsonFileStore<LocalIndexSnapshot>(
+      this.app.vault.adapter,
+      this.getPluginFilePath(`local-index-${profileId}.json`)
+    );
+  }
+
+  private registerVaultEvents(): void {
+    const forEachTracker = (apply: (tracker: VaultChangeTracker) => void) => {
+      for (const tracker of this.changeTrackers.values()) {
+        apply(tracker);
+      }
+    };
+
+    // The vault emits a create event for every file while it loads; start
+    // listening once that is done.
+    this.app.workspace.onLayoutReady(() => {
+      const onChange = (file: TAbstractFile) => {
+        forEachTracker((tracker) => {
+          if (file instanceof TFolder) {
+            tracker.requestFullScan();
+          } else {
+            tracker.markChanged(file.path);
+          }
+        });
+      };
+
+      this.registerEvent(this.app.vault.on("create", onChange));
+      this.registerEvent(this.app.vault.on("modify", onChange));
+      this.registerEvent(this.app.vault.on("delete", onChange));
+      this.registerEvent(
+        this.app.vault.on("rename", (file, oldPath) => {
+          forEachTracker((tracker) => {
+            if (file instanceof TFolder) {
+              tracker.requestFullScan();
+            } else {
+              tracker.markRenamed(oldPath, file.path);
+            }
+          });
+        })
+      );
+    });
+  }
+
+  private scheduleSync(): void {
+    this.clearSyncIntervals();
+    for (const profile of this.settings.profiles) {
+      const minutes = profile.syncIntervalMinutes;
+      if (!minutes || !Number.isFinite(minutes) || minutes <= 0) {
+        continue;
+      }
+
+      const intervalId = window.setInterval(() => {
+        void this.runSync(profile.id);
+      }, minutes * 60 * 1000);
+      this.syncIntervalIds.set(profile.id, intervalId);
+    }
+  }
+
+  private clearSyncIntervals(): void {
+    for (const intervalId of this.syncIntervalIds.values()) {
+      window.clearInterval(intervalId);
+    }
+    this.syncIntervalIds.clear();
+  }
+
+  /**
+   * Syncs one profile, or every profile in order when no id is given. With
+   * `preview`, each plan is shown for approval before it runs.
+   */
+  private async runSync(profileId?: string, preview = false): Promise<void> {
     // Prevent concurrent sync operations
     if (this.isSyncing) {
       new Notice("Sync is already in progress.");
       return;
     }
 
+    const profiles = profileId
+      ? this.settings.profiles.filter((profile) => profile.id === profileId)
+      : this.settings.profiles;
+
     this.isSyncing = true;
 
     // Add spinning animation to ribbon icon
@@ -171,33 +414,48 @@ export default class GitHubApiSyncPlugin extends Plugin {
     }
 
     try {
-      const { token, owner, repo, rootPath, ignorePatterns, conflictPolicy } = this.settings;
-      const branch = this.settings.branch.trim() || "main";
-      if (!token || !owner || !repo) {
-        new Notice("Missing GitHub settings (token/owner/repo).");
+      for (const profile of profiles) {
+        await this.syncProfile(profile, preview);
+      }
+    } finally {
+      // Remove spinning animation from ribbon icon
+      if (this.ribbonIconEl) {
+        this.ribbonIconEl.removeClass("is-syncing");
+      }
+
+      this.isSyncing = false;
+    }
+  }
+
+  private async syncProfile(profile: SyncProfile, preview: boolean): Promise<void> {
+    const label = this.profileLabel(profile);
+    try {
+      const config = this.buildSyncConfig(profile);
+      if (!config) {
         return;
       }
 
+      const rootPath = config.rootPath;
       if (rootPath.trim().length > 0) {
         const rootEntry = this.app.vault.getAbstractFileByPath(rootPath.trim());
         if (!rootEntry || !(rootEntry instanceof TFolder)) {
-          new Notice("Root path does not exist or is not a folder.");
+          new Notice(`${label}Root path does not exist or is not a folder.`);
           return;
         }
       }
 
-      // Always ignore the config directory (user-configurable, typically .obsidian/)
-      const configDirPattern = `${this.app.vault.configDir}/`;
-      const effectiveIgnorePatterns = ignorePatterns.includes(configDirPattern)
-        ? ignorePatterns
-        : [...ignorePatterns, configDirPattern];
-
-      const gitClient = new GitHubApiClient(token, owner, repo);
+      const gitClient = new GitHubApiClient(config.token, config.owner, config.repo, {
+        baseUrl: config.apiBaseUrl,
+        rateLimiter: this.getRateLimiter(config),
+        etagCache: await this.getEtagCache(),
+      });
       const localIndexer = new LocalVaultIndexer(this.app);
+      localIndexer.setChangeTracker(await this.getChangeTracker(profile.id));
+      localIndexer.setHashCache(this.hashCache);
       const remoteIndexer = new GitHubRemoteIndexer(gitClient);
       const planner = new DefaultSyncPlanner();
-      const resolver = new DefaultConflictResolver();
-      const stateStore = new PluginStateStore(this);
+      const resolver = new DefaultConflictResolver(this.mergeDrivers);
+      const stateStore = new PluginStateStore(this, profile.id);
       const engine = new DefaultSyncEngine(
         this.app,
         gitClient,
@@ -211,25 +469,20 @@ export default class GitHubApiSyncPlugin extends Plugin {
       try {
         const repoInfo = await gitClient.getRepoInfo();
         if (repoInfo.permissions && repoInfo.permissions.push === false) {
-          new Notice("Token does not have push permission for this repo.");
+          new Notice(`${label}Token does not have push permission for this repo.`);
           return;
         }
-        await gitClient.getCommitInfo(branch);
-        await engine.sync({
-          token,
-          owner,
-          repo,
-          branch,
-          rootPath,
-          ignorePatterns: effectiveIgnorePatterns,
-          conflictPolicy,
-          syncIntervalMinutes: this.settings.syncIntervalMinutes ?? undefined,
-          maxFileSizeMB: this.settings.maxFileSizeMB,
+        await gitClient.getCommitInfo(config.branch);
+        const syncConfig: SyncConfig = {
+          ...config,
+          onTargetChanged: (previousTargets, target) =>
+            new RelinkModal(this.app, previousTargets, target).choose(),
+          onFirstSync: (summary) => new FirstSyncModal(this.app, summary).choose(),
           onProgress: (progress) => {
             // Update status notice with progress
             const message = progress.percentage !== undefined
-              ? `${progress.message} (${progress.percentage}%)`
-              : progress.message;
+              ? `${label}${progress.message} (${progress.percentage}%)`
+              : `${label}${progress.message}`;
 
             if (this.syncStatusNotice) {
               this.syncStatusNotice.setMessage(message);
@@ -237,31 +490,40 @@ export default class GitHubApiSyncPlugin extends Plugin {
               this.syncStatusNotice = new Notice(message, 0); // 0 = don't auto-hide
             }
           },
-        });
+        };
+
+        if (preview) {
+          const plan = await engine.planSync(syncConfig);
+          this.hideStatusNotice();
+          const approved = await new PlanPreviewModal(this.app, plan).choose();
+          if (!approved) {
+            new Notice(`${label}Sync preview discarded.`);
+            return;
+          }
+          await engine.executePlan(plan, syncConfig, approved);
+        } else {
+          await engine.sync(syncConfig);
+        }
 
         // Hide status notice and show completion
-        if (this.syncStatusNotice) {
-          this.syncStatusNotice.hide();
-          this.syncStatusNotice = null;
-        }
-        new Notice("Sync completed.");
+        this.hideStatusNotice();
+        new Notice(`${label}Sync completed.`);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        new Notice(`Sync failed: ${message}`);
+        new Notice(`${label}Sync failed: ${message}`);
+      } finally {
+        await this.persistEtagCache();
       }
     } finally {
       // Clean up status notice in case of error
-      if (this.syncStatusNotice) {
-        this.syncStatusNotice.hide();
-        this.syncStatusNotice = null;
-      }
-
-      // Remove spinning animation from ribbon icon
-      if (this.ribbonIconEl) {
-        this.ribbonIconEl.removeClass("is-syncing");
-      }
+      this.hideStatusNotice();
+    }
+  }
 
-      this.isSyncing = false;
+  private hideStatusNotice(): void {
+    if (this.syncStatusNotice) {
+      this.syncStatusNotice.hide();
+      this.syncStatusNotice = null;
     }
   }
 }
@@ -0,0 +1,72 @@
+import type { HashCacheEntry } from "../types/sync-types";
+import type { JsonFileStore } from "./json-file-store";
+
+/**
+ * Content hashes of local files keyed by path. An entry is only trusted while
+ * the file's mtime and size still match, so a stale entry costs one rehash and
+ * never a wrong result.
+ */
+export class HashCache {
+  private store: JsonFileStore<Record<string, HashCacheEntry>>;
+  private entries = new Map<string, HashCacheEntry>();
+  private dirty = false;
+
+  constructor(store: JsonFileStore<Record<string, HashCacheEntry>>) {
+    this.store = store;
+  }
+
+  async load(): Promise<void> {
+    const stored = await this.store.load();
+    this.entries = new Map(Object.entries(stored ?? {}));
+    this.dirty = false;
+  }
+
+  get(path: string, mtime: number, size: number): HashCacheEntry | null {
+    const entry = this.entries.get(path);
+    if (!entry || entry.mtime !== mtime || entry.size !== size) {
+      return null;
+    }
+    return entry;
+  }
+
+  set(path: string, entry: HashCacheEntry): void {
+    const existing = this.entries.get(path);
+    if (
+      existing &&
+      existing.mtime === entry.mtime &&
+      existing.size === entry.size &&
+      existing.hash === entry.hash &&
+      existing.blobSha === entry.blobSha
+    ) {
+      return;
+    }
+    this.entries.set(path, entry);
+    this.dirty = true;
+  }
+
+  delete(path: string): void {
+    if (this.entries.delete(path)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Drops entries for files that no longer exist in the vault.
+   */
+  prune(existingPaths: Iterable<string>): void {
+    const keep = new Set(existingPaths);
+    for (const path of Array.from(this.entries.keys())) {
+      if (!keep.has(path)) {
+        this.delete(path);
+      }
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    await this.store.save(Object.fromEntries(this.entries));
+    this.dirty = false;
+  }
+}
@@ -0,0 +1,40 @@
+import { normalizePath, type DataAdapter } from "obsidian";
+
+/**
+ * Reads and writes one JSON document in the plugin folder. Used for state that
+ * is too large or too hot to live in data.json, which is rewritten on every
+ * log line.
+ */
+export class JsonFileStore<T> {
+  private adapter: DataAdapter;
+  private path: string;
+
+  constructor(adapter: DataAdapter, path: string) {
+    this.adapter = adapter;
+    this.path = normalizePath(path);
+  }
+
+  async load(): Promise<T | null> {
+    if (!(await this.adapter.exists(this.path))) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await this.adapter.read(this.path)) as T;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Ignoring unreadable state file ${this.path}: ${message}`);
+      return null;
+    }
+  }
+
+  async save(value: T): Promise<void> {
+    await this.adapter.write(this.path, JSON.stringify(value));
+  }
+
+  async remove(): Promise<void> {
+    if (await this.adapter.exists(this.path)) {
+      await this.adapter.remove(this.path);
+    }
+  }
+}
@@ -1,37 +1,102 @@
-import type { ConflictRecord, SyncBaseline, SyncLogEntry } from "../types/sync-types";
+import type {
+  ConflictRecord,
+  SyncBaseline,
+  SyncLogEntry,
+} from "../types/sync-types";
 import type { StateStore } from "../types/interfaces";
 import type { Plugin } from "obsidian";
 import type { PluginSettings } from "../types/plugin-settings";
+import { DEFAULT_PROFILE_ID, migrateSettings } from "../types/plugin-settings";
 
-type StoredState = {
-  settings?: PluginSettings;
-  baseline: SyncBaseline | null;
+// Baselines recorded before they were keyed by repository and branch.
+const UNKEYED_BASELINE = "";
+
+type ProfileState = {
+  baselines: Record<string, SyncBaseline>;
   conflicts: ConflictRecord[];
   logs: SyncLogEntry[];
 };
 
+type StoredProfileState = Partial<ProfileState> & { baseline?: SyncBaseline | null };
+
+type StoredState = {
+  settings?: PluginSettings;
+  profileState: Record<string, ProfileState>;
+};
+
+/**
+ * Returns the per-profile sync state stored in data.json. Data written before
+ * profiles existed keeps one baseline, conflict list and log at the top level;
+ * that state belongs to the default profile.
+ */
+export function readProfileStates(data: unknown): Record<string, ProfileState> {
+  const raw = (data ?? {}) as StoredProfileState & {
+    profileState?: Record<string, StoredProfileState>;
+  };
+  const stored = raw.profileState ?? {
+    [DEFAULT_PROFILE_ID]: { baseline: raw.baseline, conflicts: raw.conflicts, logs: raw.logs },
+  };
+
+  const result: Record<string, ProfileState> = {};
+  for (const [id, state] of Object.entries(stored)) {
+    const baselines = { ...(state.baselines ?? {}) };
+    if (state.baseline) {
+      baselines[UNKEYED_BASELINE] = state.baseline;
+    }
+    result[id] = {
+      baselines,
+      conflicts: state.conflicts ?? [],
+      logs: state.logs ?? [],
+    };
+  }
+  return result;
+}
+
 export class PluginStateStore implements StateStore {
   private plugin: Plugin;
+  private profileId: string;
 
-  constructor(plugin: Plugin) {
+  constructor(plugin: Plugin, profileId: string = DEFAULT_PROFILE_ID) {
     this.plugin = plugin;
+    this.profileId = profileId;
   }
 
-  async loadBaseline(): Promise<SyncBaseline | null> {
-    const state = await this.loadState();
-    return state.baseline;
+  /**
+   * Returns the baseline recorded for a repository and branch.
+   */
+  async loadBaseline(target: string = UNKEYED_BASELINE): Promise<SyncBaseline | null> {
+    const { baselines } = await this.loadState();
+    return baselines[target] ?? null;
   }
 
-  async saveBaseline(baseline: SyncBaseline): Promise<void> {
-    const state = await this.loadFullState();
-    state.baseline = baseline;
-    await this.plugin.saveData(this.mergeWithSettings(state));
+  /**
+   * Returns a baseline recorded before baselines were keyed, if no save has
+   * replaced it yet. It does not say which target it belongs to.
+   */
+  async loadLegacyBaseline(): Promise<SyncBaseline | null> {
+    const { baselines } = await this.loadState();
+    return baselines[UNKEYED_BASELINE] ?? null;
+  }
+
+  async saveBaseline(baseline: SyncBaseline, target: string = UNKEYED_BASELINE): Promise<void> {
+    await this.updateProfileState((state) => {
+      delete state.baselines[UNKEYED_BASELINE];
+      state.baselines[target] = baseline;
+    });
+  }
+
+  /**
+   * Lists the repositories and branches this profile has baselines for.
+   */
+  async listBaselineTargets(): Promise<string[]> {
+    const { baselines } = await this.loadState();
+    return Object.keys(baselines).filter((target) => target !== UNKEYED_BASELINE);
   }
 
   async saveConflicts(records: ConflictRecord[]): Promise<void> {
-    const state = await this.loadFullState();
-    state.conflicts = records;
-    await this.plugin.saveData(this.mergeWithSettings(state));
+    await this.updateProfileState((state) => {
+      state.conflicts = records;
+    });
   }
 
   async loadConflicts(): Promise<ConflictRecord[]> {
@@ -40,12 +105,12 @@ export class PluginStateStore implements StateStore {
   }
 
   async appendLog(entry: SyncLogEntry): Promise<void> {
-    const state = await this.loadFullState();
-    state.logs.push(entry);
-    if (state.logs.length > 500) {
-      state.logs = state.logs.slice(-500);
-    }
-    await this.plugin.saveData(this.mergeWithSettings(state));
+    await this.updateProfileState((state) => {
+      state.logs.push(entry);
+      if (state.logs.length > 500) {
+        state.logs = state.logs.slice(-500);
+      }
+    });
   }
 
   async loadLogs(): Promise<SyncLogEntry[]> {
@@ -53,25 +118,35 @@ export class PluginStateStore implements StateStore {
     return state.logs;
   }
 
-  private async loadState(): Promise<Omit<StoredState, "settings">> {
+  /**
+   * Drops the baseline, conflicts and logs of this store's profile, e.g. after
+   * the profile was removed.
+   */
+  async clearProfileState(): Promise<void> {
+    const state = await this.loadFullState();
+    delete state.profileState[this.profileId];
+    await this.plugin.saveData(this.mergeWithSettings(state));
+  }
+
+  private async loadState(): Promise<ProfileState> {
     const raw = await this.plugin.loadData();
-    const state = (raw ?? {}) as Partial<StoredState>;
-    return {
-      baseline: state.baseline ?? null,
-      conflicts: state.conflicts ?? [],
-      logs: state.logs ?? [],
-    };
+    return readProfileStates(raw)[this.profileId] ?? { baselines: {}, conflicts: [], logs: [] };
+  }
+
+  private async updateProfileState(update: (state: ProfileState) => void): Promise<void> {
+    const state = await this.loadFullState();
+    const profile = state.profileState[this.profileId] ?? { baselines: {}, conflicts: [], logs: [] };
+    update(profile);
+    state.profileState[this.profileId] = profile;
+    await this.plugin.saveData(this.mergeWithSettings(state));
   }
 
   private async loadFullState(): Promise<StoredState> {
     const raw = await this.plugin.loadData();
-    const state = (raw ?? {}) as Partial<StoredState>;
     // Extract settings fields from top level (not nested under 'settings' key)
     return {
       settings: this.extractSettings(raw),
-      baseline: state.baseline ?? null,
-      conflicts: state.conflicts ?? [],
-      logs: state.logs ?? [],
+      profileState: readProfileStates(raw),
     };
   }
 
@@ -79,30 +154,18 @@ export class PluginStateStore implements StateStore {
     if (!data || typeof data !== "object") {
       return undefined;
     }
-    const obj = data as Partial<PluginSettings>;
+    const obj = data as Record<string, unknown>;
     // Check if this looks like settings (has at least one known field)
-    const hasSettings = "token" in obj || "owner" in obj || "repo" in obj;
+    const hasSettings = "profiles" in obj || "token" in obj || "owner" in obj || "repo" in obj;
     if (!hasSettings) {
       return undefined;
     }
-    return {
-      token: obj.token ?? "",
-      owner: obj.owner ?? "",
-      repo: obj.repo ?? "",
-      branch: obj.branch ?? "main",
-      rootPath: obj.rootPath ?? "",
-      ignorePatterns: obj.ignorePatterns ?? [".git/"],
-      conflictPolicy: obj.conflictPolicy ?? "keepBoth",
-      syncIntervalMinutes: obj.syncIntervalMinutes ?? null,
-      maxFileSizeMB: obj.maxFileSizeMB ?? 50,
-    };
+    return migrateSettings(obj);
   }
 
   private mergeWithSettings(state: StoredState): Record<string, unknown> {
     const result: Record<string, unknown> = {
-      baseline: state.baseline,
-      conflicts: state.conflicts,
-      logs: state.logs,
+      profileState: state.profileState,
     };
     // Spread settings back to top level
     if (state.settings) {
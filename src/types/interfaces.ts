@@ -1,11 +1,23 @@
 import type {
+  CommitComparison,
+  ComparedCommit,
+  ConflictPolicy,
   ConflictRecord,
+  ConflictResolveOptions,
+  InitialSyncStrategy,
   LocalIndex,
+  MergeDriverInput,
+  MergeDriverResult,
+  MergeDriverRule,
+  RateLimitWait,
   RemoteIndex,
   SyncBaseline,
   SyncConfig,
   SyncLogEntry,
+  PathMapping,
   SyncOp,
+  SyncPlan,
+  SyncScopeOptions,
 } from "./sync-types";
 
 export interface LocalIndexer {
@@ -13,6 +25,7 @@ export interface LocalIndexer {
   computeHash(path: string): Promise<string>;
   setPreviousBaseline(baseline: SyncBaseline | null): void;
   setMaxFileSizeMB(maxSizeMB: number): void;
+  setPathMappings?(mappings: PathMapping[]): void;
 }
 
 export interface RemoteIndexer {
@@ -23,11 +36,16 @@ export interface RemoteIndexer {
     baseline?: SyncBaseline | null
   ): Promise<RemoteIndex>;
   fetchDiff(baseSha: string, headSha: string): Promise<RemoteIndex>;
+  describeLastFetch?(): string;
+  setPathMappings?(mappings: PathMapping[]): void;
+  resolveLastCommits?(remote: RemoteIndex, paths: string[], branch: string): Promise<void>;
 }
 
 export interface StateStore {
-  loadBaseline(): Promise<SyncBaseline | null>;
-  saveBaseline(baseline: SyncBaseline): Promise<void>;
+  loadBaseline(target?: string): Promise<SyncBaseline | null>;
+  saveBaseline(baseline: SyncBaseline, target?: string): Promise<void>;
+  listBaselineTargets?(): Promise<string[]>;
+  loadLegacyBaseline?(): Promise<SyncBaseline | null>;
   saveConflicts(records: ConflictRecord[]): Promise<void>;
   loadConflicts(): Promise<ConflictRecord[]>;
   appendLog(entry: SyncLogEntry): Promise<void>;
@@ -38,19 +56,52 @@ export interface SyncPlanner {
   plan(
     local: LocalIndex,
     remote: RemoteIndex,
-    baseline: SyncBaseline | null
+    baseline: SyncBaseline | null,
+    scope?: SyncScopeOptions,
+    initialStrategy?: InitialSyncStrategy
   ): { ops: SyncOp[]; conflicts: SyncOp[] };
 }
 
 export interface ConflictResolver {
   resolve(
     conflicts: SyncOp[],
-    policy: SyncConfig["conflictPolicy"]
+    defaultPolicy: ConflictPolicy,
+    options?: ConflictResolveOptions
   ): { resolvedOps: SyncOp[]; conflictRecords: ConflictRecord[] };
+  canMerge?(path: string, rules?: MergeDriverRule[]): boolean;
+  merge?(input: MergeDriverInput, rules?: MergeDriverRule[]): Promise<MergeDriverResult>;
+  mergeWithMarkers?(path: string, base: string | null, local: string, remote: string): string | null;
+}
+
+/**
+ * Three-way merges one kind of file. Drivers apply to the files matching their
+ * extensions or patterns, or to paths a merge driver rule routes to them.
+ */
+export interface MergeDriver {
+  /** Unique name, used by merge driver rules. */
+  name: string;
+  /** File extensions handled by default, without the dot. */
+  extensions?: string[];
+  /** Globs of paths handled by default. */
+  patterns?: string[];
+  merge(input: MergeDriverInput): MergeDriverResult | Promise<MergeDriverResult>;
+}
+
+/**
+ * Exposed to other plugins as `app.plugins.getPlugin("github-api-sync").api`.
+ */
+export interface GitHubApiSyncApi {
+  /**
+   * Adds a merge driver, replacing any with the same name. Drivers registered
+   * later take precedence. Returns a function that removes it again.
+   */
+  registerMergeDriver(driver: MergeDriver): () => void;
 }
 
 export interface GitHubClient {
   getFile(path: string, ref: string): Promise<{ content: string; sha: string }>;
+  getBlob(sha: string): Promise<{ content: string; sha: string }>;
+  getBlobSha(path: string, ref: string): Promise<string | null>;
   putFile(
     path: string,
     contentBase64: string,
@@ -62,13 +113,11 @@ export interface GitHubClient {
   listTree(ref: string): Promise<RemoteIndex>;
   getCommitSha(branch: string): Promise<string>;
   getCommitInfo(branch: string): Promise<{ sha: string; date: string }>;
-  compareCommits(
-    base: string,
-    head: string
-  ): Promise<{
-    files: Array<{ filename: string; status: string; previous_filename?: string; sha?: string }>;
-    headCommitDate: string;
-  }>;
+  getCommitFiles(
+    sha: string
+  ): Promise<{ sha: string; date: string; author?: string; files: string[] }>;
+  getLastCommitForPath(path: string, ref: string): Promise<ComparedCommit | null>;
+  compareCommits(base: string, head: string): Promise<CommitComparison>;
   getRepoInfo(): Promise<{ private: boolean; permissions?: { push?: boolean; pull?: boolean } }>;
   getCommitTreeSha(commitSha: string): Promise<string>;
   createBlob(contentBase64: string): Promise<string>;
@@ -78,8 +127,11 @@ export interface GitHubClient {
   }): Promise<string>;
   createCommit(message: string, treeSha: string, parents: string[]): Promise<string>;
   updateRef(branch: string, commitSha: string): Promise<void>;
+  setRateLimitListener?(listener: ((wait: RateLimitWait) => void) | null): void;
 }
 
 export interface SyncEngine {
   sync(config: SyncConfig): Promise<void>;
+  planSync(config: SyncConfig): Promise<SyncPlan>;
+  executePlan(plan: SyncPlan, config: SyncConfig, approved?: SyncOp[]): Promise<void>;
 }
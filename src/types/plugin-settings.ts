@@ -1,23 +1,96 @@
-export type PluginSettings = {
+import type { ConflictPolicy, ConflictRule, MergeDriverRule, PathMapping } from "./sync-types";
+
+export type SyncProfile = {
+  id: string;
+  name: string;
+  apiBaseUrl: string;
   token: string;
   owner: string;
   repo: string;
   branch: string;
   rootPath: string;
+  pathMappings: PathMapping[];
   ignorePatterns: string[];
-  conflictPolicy: "preferLocal" | "preferRemote" | "keepBoth" | "manual";
+  useGitignore: boolean;
+  conflictPolicy: ConflictPolicy;
+  conflictRules: ConflictRule[];
+  newestWinsToleranceSeconds: number;
+  mergeDriverRules: MergeDriverRule[];
   syncIntervalMinutes: number | null;
   maxFileSizeMB: number;
 };
 
-export const DEFAULT_SETTINGS: PluginSettings = {
+export type PluginSettings = {
+  profiles: SyncProfile[];
+  activeProfileId: string;
+  fullScanIntervalHours: number;
+};
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const DEFAULT_PROFILE: SyncProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: "Default",
+  apiBaseUrl: "https://api.github.com",
   token: "",
   owner: "",
   repo: "",
   branch: "main",
   rootPath: "",
+  pathMappings: [],
   ignorePatterns: [".git/"],
+  useGitignore: false,
   conflictPolicy: "keepBoth",
+  conflictRules: [],
+  newestWinsToleranceSeconds: 60,
+  mergeDriverRules: [],
   syncIntervalMinutes: null,
   maxFileSizeMB: 50, // GitHub API limit is 100MB, use 50MB as safe default
 };
+
+export const DEFAULT_SETTINGS: PluginSettings = {
+  profiles: [{ ...DEFAULT_PROFILE }],
+  activeProfileId: DEFAULT_PROFILE_ID,
+  fullScanIntervalHours: 24,
+};
+
+/**
+ * Reads settings from data.json. Data written before profiles existed keeps its
+ * connection settings at the top level; they become the default profile.
+ */
+export function migrateSettings(data: unknown): PluginSettings {
+  const obj = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const storedProfiles = Array.isArray(obj.profiles) ? (obj.profiles as Partial<SyncProfile>[]) : null;
+
+  let profiles: SyncProfile[];
+  if (storedProfiles && storedProfiles.length > 0) {
+    profiles = storedProfiles.map((profile, index) => ({
+      ...DEFAULT_PROFILE,
+      ...profile,
+      id: profile.id || `profile-${index + 1}`,
+      name: profile.name || `Profile ${index + 1}`,
+    }));
+  } else {
+    const legacy: Record<string, unknown> = {};
+    for (const key of Object.keys(DEFAULT_PROFILE)) {
+      if (key in obj) {
+        legacy[key] = obj[key];
+      }
+    }
+    profiles = [{ ...DEFAULT_PROFILE, ...legacy, id: DEFAULT_PROFILE_ID, name: "Default" }];
+  }
+
+  const activeProfileId =
+    typeof obj.activeProfileId === "string" && profiles.some((p) => p.id === obj.activeProfileId)
+      ? obj.activeProfileId
+      : profiles[0].id;
+
+  return {
+    profiles,
+    activeProfileId,
+    fullScanIntervalHours:
+      typeof obj.fullScanIntervalHours === "number"
+        ? obj.fullScanIntervalHours
+        : DEFAULT_SETTINGS.fullScanIntervalHours,
+  };
+}
@@ -1,30 +1,133 @@
 export type SyncConfig = {
+  apiBaseUrl?: string;
   token: string;
   owner: string;
   repo: string;
   branch: string;
   rootPath: string;
   ignorePatterns: string[];
-  conflictPolicy: "preferLocal" | "preferRemote" | "keepBoth" | "manual";
+  useGitignore?: boolean;
+  pathMappings?: PathMapping[];
+  conflictPolicy: ConflictPolicy;
+  /** Ordered per-path overrides of conflictPolicy; the first match wins. */
+  conflictRules?: ConflictRule[];
+  /** Changes closer together than this are kept as both under newestWins. */
+  newestWinsToleranceSeconds?: number;
+  /** Ordered per-path choices of merge driver, ahead of the drivers' own file types. */
+  mergeDriverRules?: MergeDriverRule[];
   syncIntervalMinutes?: number;
   maxFileSizeMB?: number;
+  initialStrategy?: InitialSyncStrategy;
   onProgress?: (progress: SyncProgress) => void;
+  /**
+   * Called when the baselines on record belong to other repositories or
+   * branches. Resolves to how the new target should be linked, or null to
+   * cancel the sync.
+   */
+  onTargetChanged?: (
+    previousTargets: string[],
+    target: string
+  ) => Promise<InitialSyncStrategy | null>;
+  /**
+   * Called before the first sync of a profile is planned. Resolves to which
+   * side is authoritative, or to keeping both versions of differing files, or
+   * null to cancel the sync.
+   */
+  onFirstSync?: (summary: FirstSyncSummary) => Promise<FirstSyncChoice | null>;
+};
+
+/**
+ * How to plan a sync that has no baseline: make the vault match the remote,
+ * make the remote match the vault, or keep one-sided files on both sides and
+ * treat differing files as conflicts.
+ */
+export type InitialSyncStrategy = "adoptRemote" | "pushLocal" | "mergeByContent";
+
+export type ConflictPolicy =
+  | "preferLocal"
+  | "preferRemote"
+  | "keepBoth"
+  | "markers"
+  | "newestWins"
+  | "manual";
+
+export type ConflictRule = {
+  pattern: string;
+  policy: ConflictPolicy;
+};
+
+/**
+ * Routes paths matching a glob to a named merge driver.
+ */
+export type MergeDriverRule = {
+  pattern: string;
+  driver: string;
+};
+
+export type ConflictResolveOptions = {
+  rules?: ConflictRule[];
+  /** Indexes the conflicts were planned from, used by newestWins. */
+  local?: LocalIndex;
+  remote?: RemoteIndex;
+  newestWinsToleranceSeconds?: number;
+};
+
+export type ConflictDecision = {
+  winner: "local" | "remote" | "both";
+  reason: string;
+};
+
+/**
+ * How a first sync treats the two sides: make the remote match the vault, make
+ * the vault match the remote, or copy one-sided files both ways and keep both
+ * versions of differing files.
+ */
+export type FirstSyncChoice = "pushLocal" | "adoptRemote" | "keepBoth";
+
+export type FirstSyncSummary = {
+  /** Files with the same content on both sides, linked without writes. */
+  identical: number;
+  localOnly: string[];
+  remoteOnly: string[];
+  differing: string[];
+};
+
+export type PathMapping = {
+  vaultPath: string;
+  repoPath: string;
+};
+
+export type SyncScopeOptions = {
+  rootPath: string;
+  ignorePatterns: string[];
+  pathMappings?: PathMapping[];
 };
 
 export type SyncProgress = {
-  stage: "scanning" | "planning" | "executing" | "saving";
+  stage: "scanning" | "planning" | "executing" | "saving" | "waiting";
   message: string;
   current?: number;
   total?: number;
   percentage?: number;
 };
 
+export type RateLimitKind = "primary" | "secondary";
+
+export type RateLimitWait = {
+  kind: RateLimitKind;
+  waitMs: number;
+  resumeAt: number;
+};
+
 export type BaselineEntry = {
   path: string;
   hash?: string;
+  blobSha?: string;
   sha?: string;
   mtime?: number;
+  size?: number;
   lastCommitTime?: number;
+  lastCommitAuthor?: string;
 };
 
 export type SyncBaseline = {
@@ -35,6 +138,8 @@ export type SyncBaseline = {
 export type LocalEntry = {
   path: string;
   hash: string;
+  /** Git blob object id of the content, comparable with RemoteEntry.sha. */
+  blobSha: string;
   mtime: number;
   size: number;
 };
@@ -44,11 +149,26 @@ export type RemoteEntry = {
   sha: string;
   size: number;
   lastCommitTime: number;
+  lastCommitAuthor?: string;
 };
 
 export type LocalIndex = Record<string, LocalEntry>;
 export type RemoteIndex = Record<string, RemoteEntry>;
 
+export type HashCacheEntry = {
+  mtime: number;
+  size: number;
+  hash: string;
+  blobSha: string;
+};
+
+export type LocalIndexSnapshot = {
+  scope: string;
+  lastFullScanAt: number;
+  entries: LocalIndex;
+  dirty: string[];
+};
+
 export type SyncOp =
   | { type: "pull_new"; path: string }
   | { type: "pull_update"; path: string }
@@ -69,16 +189,97 @@ export type SyncOp =
         | "mass-remote-deletion-safety";
     };
 
+/**
+ * The outcome of scanning and planning, kept with the indexes it was computed
+ * from so it can be executed without scanning again.
+ */
+export type SyncPlan = {
+  /** Repository and branch the baseline is recorded for. */
+  target: string;
+  baseline: SyncBaseline | null;
+  /**
+   * Conflict policy chosen for a first sync, applied instead of the configured
+   * policy and rules.
+   */
+  firstSyncPolicy?: ConflictPolicy;
+  ignorePatterns: string[];
+  local: LocalIndex;
+  remote: RemoteIndex;
+  ops: SyncOp[];
+  conflicts: SyncOp[];
+};
+
+export type MergeDriverInput = {
+  path: string;
+  /** Content at the last sync, the common ancestor of both sides. */
+  base: Uint8Array;
+  local: Uint8Array;
+  remote: Uint8Array;
+  /** Local modification time, in ms, when known. */
+  localTime?: number;
+  /** Time of the last remote commit to the file, in ms, when known. */
+  remoteTime?: number;
+};
+
+export type MergeDriverResult = {
+  /** Merged content, or null when the driver cannot merge these edits. */
+  content: Uint8Array | null;
+  /** Frontmatter properties both sides changed differently. */
+  conflictingKeys?: string[];
+};
+
+export type TextMergeResult = {
+  /** Merged content, or null when the edits overlap. */
+  text: string | null;
+  /** Frontmatter properties both sides changed differently. */
+  conflictingKeys: string[];
+};
+
 export type ConflictRecord = {
   path: string;
   type: "modify-modify" | "delete-modify";
   reason: "modify-modify" | "delete-modify-local" | "delete-modify-remote" | "local-missing-remote";
   localVersion?: { hash: string; mtime: number };
-  remoteVersion?: { sha: string; lastCommitTime: number };
-  policy: SyncConfig["conflictPolicy"];
+  remoteVersion?: { sha: string; lastCommitTime: number; author?: string };
+  policy: ConflictPolicy;
+  /** Pattern of the conflict rule that chose the policy, if any. */
+  rule?: string;
+  /** Which side newestWins kept, and why. */
+  decision?: ConflictDecision;
+  /** Frontmatter properties both sides changed differently. */
+  conflictingKeys?: string[];
   timestamp: string;
 };
 
+export type ComparedFile = {
+  filename: string;
+  status: string;
+  previous_filename?: string;
+  sha?: string;
+};
+
+export type ComparedCommit = {
+  sha: string;
+  date: string;
+  author?: string;
+};
+
+export type CommitComparison = {
+  /** How head relates to base; "ahead" and "identical" mean base is an ancestor of head. */
+  status: "ahead" | "behind" | "identical" | "diverged";
+  files: ComparedFile[];
+  commits: ComparedCommit[];
+  totalCommits: number;
+  headCommitDate: string;
+  complete: boolean;
+};
+
+export type EtagCacheEntry = {
+  etag: string;
+  json: unknown;
+  storedAt: number;
+};
+
 export type SyncLogEntry = {
   timestamp: string;
   level: "info" | "warn" | "error";
@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks the user to confirm a destructive action. Resolves to false if the
+ * modal is closed without confirming.
+ */
+export class ConfirmModal extends Modal {
+  private title: string;
+  private message: string;
+  private confirmText: string;
+  private resolveChoice: ((confirmed: boolean) => void) | null = null;
+
+  constructor(app: App, title: string, message: string, confirmText: string) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmText = confirmText;
+  }
+
+  confirm(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setHeading().setName(this.title);
+    contentEl.createEl("p", { text: this.message });
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("Cancel").onClick(() => this.finish(false)))
+      .addButton((button) =>
+        button
+          .setButtonText(this.confirmText)
+          .setWarning()
+          .onClick(() => this.finish(true))
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.finish(false);
+  }
+
+  private finish(confirmed: boolean): void {
+    const resolve = this.resolveChoice;
+    this.resolveChoice = null;
+    resolve?.(confirmed);
+    if (resolve) {
+      this.close();
+    }
+  }
+}
@@ -1,13 +1,16 @@
 import { Modal, Setting } from "obsidian";
 import type GitHubApiSyncPlugin from "../main";
+import { renderProfilePicker } from "./profile-picker";
 import type { ConflictRecord } from "../types/sync-types";
 
 export class ConflictModal extends Modal {
   private plugin: GitHubApiSyncPlugin;
+  private profileId: string;
 
   constructor(plugin: GitHubApiSyncPlugin) {
     super(plugin.app);
     this.plugin = plugin;
+    this.profileId = plugin.getActiveProfile().id;
   }
 
   async onOpen(): Promise<void> {
@@ -19,8 +22,12 @@ export class ConflictModal extends Modal {
     contentEl.empty();
 
     new Setting(contentEl).setHeading().setName("Sync conflicts");
+    renderProfilePicker(contentEl, this.plugin, this.profileId, async (profileId) => {
+      this.profileId = profileId;
+      await this.render();
+    });
 
-    const conflicts = await this.plugin.loadConflicts();
+    const conflicts = await this.plugin.loadConflicts(this.profileId);
     if (conflicts.length === 0) {
       contentEl.createEl("p", { text: "No conflicts." });
       return;
@@ -29,11 +36,31 @@ export class ConflictModal extends Modal {
     const list = contentEl.createEl("ul");
     for (const entry of conflicts.slice(-100)) {
       const item = list.createEl("li");
-      item.textContent = `[${entry.timestamp}] ${entry.type}: ${entry.path} (${entry.policy})`;
+      const policy = entry.rule ? `${entry.policy} via ${entry.rule}` : entry.policy;
+      item.textContent = `[${entry.timestamp}] ${entry.type}: ${entry.path} (${policy})`;
+      if (entry.decision) {
+        item.createEl("div", { text: `Newest wins: ${entry.decision.winner} (${entry.decision.reason})` });
+      }
+      if (entry.conflictingKeys?.length) {
+        item.createEl("div", { text: `Conflicting properties: ${entry.conflictingKeys.join(", ")}` });
+      }
+      const remoteChange = this.describeRemoteChange(entry);
+      if (remoteChange) {
+        item.createEl("div", { text: remoteChange });
+      }
       this.renderActions(item, entry);
     }
   }
 
+  private describeRemoteChange(entry: ConflictRecord): string {
+    const remote = entry.remoteVersion;
+    if (!remote?.lastCommitTime) {
+      return "";
+    }
+    const when = new Date(remote.lastCommitTime).toLocaleString();
+    return remote.author ? `Remote changed by ${remote.author} on ${when}` : `Remote changed on ${when}`;
+  }
+
   private renderActions(container: HTMLElement, entry: ConflictRecord): void {
     const actionWrap = container.createEl("div");
     const keepLocal = actionWrap.createEl("button", { text: "Keep local" });
@@ -41,15 +68,15 @@ export class ConflictModal extends Modal {
     const keepBoth = actionWrap.createEl("button", { text: "Keep both" });
 
     keepLocal.onclick = async () => {
-      await this.plugin.resolveConflict(entry, "keepLocal");
+      await this.plugin.resolveConflict(this.profileId, entry, "keepLocal");
       await this.render();
     };
     keepRemote.onclick = async () => {
-      await this.plugin.resolveConflict(entry, "keepRemote");
+      await this.plugin.resolveConflict(this.profileId, entry, "keepRemote");
       await this.render();
     };
     keepBoth.onclick = async () => {
-      await this.plugin.resolveConflict(entry, "keepBoth");
+      await this.plugin.resolveConflict(this.profileId, entry, "keepBoth");
       await this.render();
     };
   }
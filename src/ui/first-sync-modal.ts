@@ -0,0 +1,84 @@
+import { App, Modal, Setting } from "obsidian";
+import type { FirstSyncChoice, FirstSyncSummary } from "../types/sync-types";
+
+const MAX_LISTED_PATHS = 20;
+
+/**
+ * Summarizes how a profile's vault and remote compare before its first sync and
+ * asks which side to trust. Resolves to null if the modal is closed without a
+ * choice.
+ */
+export class FirstSyncModal extends Modal {
+  private summary: FirstSyncSummary;
+  private resolveChoice: ((choice: FirstSyncChoice | null) => void) | null = null;
+
+  constructor(app: App, summary: FirstSyncSummary) {
+    super(app);
+    this.summary = summary;
+  }
+
+  choose(): Promise<FirstSyncChoice | null> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    const { identical, localOnly, remoteOnly, differing } = this.summary;
+    contentEl.empty();
+
+    new Setting(contentEl).setHeading().setName("First sync");
+    const list = contentEl.createEl("ul");
+    list.createEl("li", { text: `${identical} identical files will be linked without changes.` });
+    list.createEl("li", { text: `${localOnly.length} files are only in the vault.` });
+    list.createEl("li", { text: `${remoteOnly.length} files are only in the repository.` });
+    list.createEl("li", { text: `${differing.length} files differ between the vault and the repository.` });
+
+    if (differing.length > 0) {
+      const details = contentEl.createEl("details");
+      details.createEl("summary", { text: "Differing files" });
+      const paths = details.createEl("ul");
+      for (const path of differing.slice(0, MAX_LISTED_PATHS)) {
+        paths.createEl("li", { text: path });
+      }
+      if (differing.length > MAX_LISTED_PATHS) {
+        paths.createEl("li", { text: `...and ${differing.length - MAX_LISTED_PATHS} more` });
+      }
+    }
+
+    contentEl.createEl("p", { text: "Choose how to link them:" });
+    new Setting(contentEl)
+      .setName("Local is the source of truth")
+      .setDesc("Make the repository match the vault. Repository files missing from the vault are deleted.")
+      .addButton((button) => button.setButtonText("Use local").onClick(() => this.finish("pushLocal")));
+    new Setting(contentEl)
+      .setName("Remote is the source of truth")
+      .setDesc("Make the vault match the repository. Vault files missing from the repository are deleted.")
+      .addButton((button) => button.setButtonText("Use remote").onClick(() => this.finish("adoptRemote")));
+    new Setting(contentEl)
+      .setName("Keep both")
+      .setDesc(
+        "Copy files that exist on one side to the other. For differing files, keep the vault version and save the repository version as a conflict copy."
+      )
+      .addButton((button) => button.setButtonText("Keep both").onClick(() => this.finish("keepBoth")));
+    new Setting(contentEl).addButton((button) =>
+      button.setButtonText("Cancel sync").onClick(() => this.finish(null))
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private finish(choice: FirstSyncChoice | null): void {
+    const resolve = this.resolveChoice;
+    this.resolveChoice = null;
+    resolve?.(choice);
+    if (resolve) {
+      this.close();
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { App, Modal, Setting } from "obsidian";
+import { formatSize, summarizePlan } from "../core/plan-summary";
+import type { SyncOp, SyncPlan } from "../types/sync-types";
+
+/**
+ * Shows a planned sync grouped by op type and lets the user deselect ops before
+ * applying it. Resolves to the approved ops, or null if the plan is discarded.
+ */
+export class PlanPreviewModal extends Modal {
+  private plan: SyncPlan;
+  private selected: Set<SyncOp>;
+  private resolveChoice: ((approved: SyncOp[] | null) => void) | null = null;
+
+  constructor(app: App, plan: SyncPlan) {
+    super(app);
+    this.plan = plan;
+    this.selected = new Set(this.allOps());
+  }
+
+  choose(): Promise<SyncOp[] | null> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setHeading().setName("Sync preview");
+    const groups = summarizePlan(this.plan);
+    if (groups.length === 0) {
+      contentEl.createEl("p", { text: "Everything is in sync." });
+    }
+
+    for (const group of groups) {
+      const details = contentEl.createEl("details");
+      details.createEl("summary", {
+        text: `${group.label}: ${group.ops.length} files, ${formatSize(group.size)}`,
+      });
+      const list = details.createEl("ul");
+      for (const op of group.ops) {
+        const label = list.createEl("li").createEl("label");
+        const checkbox = label.createEl("input", { type: "checkbox" });
+        checkbox.checked = this.selected.has(op);
+        checkbox.onchange = () => {
+          if (checkbox.checked) {
+            this.selected.add(op);
+          } else {
+            this.selected.delete(op);
+          }
+        };
+        label.appendText(` ${this.describeOp(op)}`);
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Apply selected")
+          .setCta()
+          .onClick(() => this.finish(this.allOps().filter((op) => this.selected.has(op))))
+      )
+      .addButton((button) => button.setButtonText("Apply all").onClick(() => this.finish(this.allOps())))
+      .addButton((button) => button.setButtonText("Cancel").onClick(() => this.finish(null)));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private allOps(): SyncOp[] {
+    return [...this.plan.ops, ...this.plan.conflicts];
+  }
+
+  private describeOp(op: SyncOp): string {
+    if (op.type === "rename_local" || op.type === "rename_remote") {
+      return `${op.from} -> ${op.to}`;
+    }
+    return op.type === "conflict" ? `${op.path} (${op.reason})` : op.path;
+  }
+
+  private finish(approved: SyncOp[] | null): void {
+    const resolve = this.resolveChoice;
+    this.resolveChoice = null;
+    resolve?.(approved);
+    if (resolve) {
+      this.close();
+    }
+  }
+}
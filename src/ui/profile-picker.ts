@@ -0,0 +1,25 @@
+import { Setting } from "obsidian";
+import type GitHubApiSyncPlugin from "../main";
+
+/**
+ * Adds a profile dropdown to a modal. Nothing is shown with a single profile.
+ */
+export function renderProfilePicker(
+  containerEl: HTMLElement,
+  plugin: GitHubApiSyncPlugin,
+  selectedId: string,
+  onChange: (profileId: string) => Promise<void>
+): void {
+  if (plugin.settings.profiles.length <= 1) {
+    return;
+  }
+
+  new Setting(containerEl).setName("Profile").addDropdown((dropdown) => {
+    for (const profile of plugin.settings.profiles) {
+      dropdown.addOption(profile.id, profile.name);
+    }
+    dropdown.setValue(selectedId).onChange(async (value) => {
+      await onChange(value);
+    });
+  });
+}
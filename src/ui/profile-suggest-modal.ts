@@ -0,0 +1,27 @@
+import { FuzzySuggestModal } from "obsidian";
+import type GitHubApiSyncPlugin from "../main";
+import type { SyncProfile } from "../types/plugin-settings";
+
+export class ProfileSuggestModal extends FuzzySuggestModal<SyncProfile> {
+  private plugin: GitHubApiSyncPlugin;
+  private onChoose: (profile: SyncProfile) => void;
+
+  constructor(plugin: GitHubApiSyncPlugin, onChoose: (profile: SyncProfile) => void) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a sync profile");
+  }
+
+  getItems(): SyncProfile[] {
+    return this.plugin.settings.profiles;
+  }
+
+  getItemText(profile: SyncProfile): string {
+    return `${profile.name} (${profile.owner}/${profile.repo}@${profile.branch})`;
+  }
+
+  onChooseItem(profile: SyncProfile): void {
+    this.onChoose(profile);
+  }
+}
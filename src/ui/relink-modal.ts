@@ -0,0 +1,69 @@
+import { App, Modal, Setting } from "obsidian";
+import type { InitialSyncStrategy } from "../types/sync-types";
+
+/**
+ * Asks how to link a profile to a repository or branch it has not synced with
+ * before. Resolves to null if the modal is closed without a choice.
+ */
+export class RelinkModal extends Modal {
+  private previousTargets: string[];
+  private target: string;
+  private resolveChoice: ((strategy: InitialSyncStrategy | null) => void) | null = null;
+
+  constructor(app: App, previousTargets: string[], target: string) {
+    super(app);
+    this.previousTargets = previousTargets;
+    this.target = target;
+  }
+
+  choose(): Promise<InitialSyncStrategy | null> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setHeading().setName("Repository or branch changed");
+    contentEl.createEl("p", { text: `Previously synced with: ${this.previousTargets.join(", ")}` });
+    contentEl.createEl("p", { text: `Now configured: ${this.target}` });
+    contentEl.createEl("p", {
+      text: "There is no sync history for the new target. Choose how to link it.",
+    });
+
+    new Setting(contentEl)
+      .setName("Adopt remote")
+      .setDesc("Make the vault match the repository. Local files missing remotely are deleted.")
+      .addButton((button) => button.setButtonText("Adopt remote").onClick(() => this.finish("adoptRemote")));
+    new Setting(contentEl)
+      .setName("Push local")
+      .setDesc("Make the repository match the vault. Remote files missing locally are deleted.")
+      .addButton((button) => button.setButtonText("Push local").onClick(() => this.finish("pushLocal")));
+    new Setting(contentEl)
+      .setName("Merge by content")
+      .setDesc("Keep files that exist on one side only; files that differ become conflicts.")
+      .addButton((button) =>
+        button.setButtonText("Merge").onClick(() => this.finish("mergeByContent"))
+      );
+    new Setting(contentEl).addButton((button) =>
+      button.setButtonText("Cancel sync").onClick(() => this.finish(null))
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private finish(strategy: InitialSyncStrategy | null): void {
+    const resolve = this.resolveChoice;
+    this.resolveChoice = null;
+    resolve?.(strategy);
+    if (resolve) {
+      this.close();
+    }
+  }
+}
@@ -1,5 +1,20 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type GitHubApiSyncPlugin from "../main";
+import type { SyncProfile } from "../types/plugin-settings";
+import { isValidApiBaseUrl } from "../clients/github-endpoint";
+import { formatPathMappings, parsePathMappings } from "../core/path-mapper";
+import { formatConflictRules, parseConflictRules } from "../core/conflict-rules";
+import { formatMergeDriverRules, parseMergeDriverRules } from "../core/merge-drivers";
+import { ConfirmModal } from "./confirm-modal";
+
+const API_URL_DESCRIPTION =
+  "Leave as is for github.com. For GitHub Enterprise Server, enter the server URL or its /api/v3 endpoint.";
+const PATH_MAPPINGS_DESCRIPTION =
+  "One mapping per line, as vault folder -> repository folder (e.g. Work -> notes). Leave empty to use the same paths on both sides.";
+const CONFLICT_RULES_DESCRIPTION =
+  "One rule per line, as glob -> policy (e.g. Daily/** -> preferLocal). The first matching rule wins; other files use the conflict policy above.";
+const MERGE_DRIVERS_DESCRIPTION =
+  "One rule per line, as glob -> driver (e.g. Logs/** -> union). Built-in drivers: note, text, json, canvas, union, append-only, take-local and take-remote. Other files use the driver for their file type.";
 
 export class SettingsView extends PluginSettingTab {
   private plugin: GitHubApiSyncPlugin;
@@ -15,15 +30,41 @@ export class SettingsView extends PluginSettingTab {
 
     new Setting(containerEl).setHeading().setName("GitHub API sync");
 
+    const profile = this.plugin.getActiveProfile();
+    this.renderProfileControls(containerEl, profile);
+
+    const apiUrlSetting = new Setting(containerEl)
+      .setName("GitHub API URL")
+      .setDesc(API_URL_DESCRIPTION);
+    apiUrlSetting.addText((text) =>
+      text
+        .setPlaceholder("https://api.github.com")
+        .setValue(profile.apiBaseUrl)
+        .onChange(async (value) => {
+          const trimmed = value.trim();
+          if (!isValidApiBaseUrl(trimmed)) {
+            apiUrlSetting.setDesc(
+              "Invalid URL. Use an http(s) address such as https://github.example.com/api/v3."
+            );
+            text.inputEl.addClass("github-api-sync-invalid");
+            return;
+          }
+          apiUrlSetting.setDesc(API_URL_DESCRIPTION);
+          text.inputEl.removeClass("github-api-sync-invalid");
+          profile.apiBaseUrl = trimmed;
+          await this.plugin.saveSettings();
+        })
+    );
+
     new Setting(containerEl)
       .setName("GitHub token")
       .setDesc("Requires repo scope for private repositories.")
       .addText((text) =>
         text
           .setPlaceholder("Ghp_...")
-          .setValue(this.plugin.settings.token)
+          .setValue(profile.token)
           .onChange(async (value) => {
-            this.plugin.settings.token = value.trim();
+            profile.token = value.trim();
             await this.plugin.saveSettings();
           })
       );
@@ -33,9 +74,9 @@ export class SettingsView extends PluginSettingTab {
       .addText((text) =>
         text
           .setPlaceholder("Owner")
-          .setValue(this.plugin.settings.owner)
+          .setValue(profile.owner)
           .onChange(async (value) => {
-            this.plugin.settings.owner = value.trim();
+            profile.owner = value.trim();
             await this.plugin.saveSettings();
           })
       );
@@ -45,9 +86,9 @@ export class SettingsView extends PluginSettingTab {
       .addText((text) =>
         text
           .setPlaceholder("Repo")
-          .setValue(this.plugin.settings.repo)
+          .setValue(profile.repo)
           .onChange(async (value) => {
-            this.plugin.settings.repo = value.trim();
+            profile.repo = value.trim();
             await this.plugin.saveSettings();
           })
       );
@@ -57,9 +98,9 @@ export class SettingsView extends PluginSettingTab {
       .addText((text) =>
         text
           .setPlaceholder("Main")
-          .setValue(this.plugin.settings.branch)
+          .setValue(profile.branch)
           .onChange(async (value) => {
-            this.plugin.settings.branch = value.trim();
+            profile.branch = value.trim();
             await this.plugin.saveSettings();
           })
       );
@@ -70,22 +111,45 @@ export class SettingsView extends PluginSettingTab {
       .addText((text) =>
         text
           .setPlaceholder("Journal")
-          .setValue(this.plugin.settings.rootPath)
+          .setValue(profile.rootPath)
           .onChange(async (value) => {
-            this.plugin.settings.rootPath = value.trim();
+            profile.rootPath = value.trim();
             await this.plugin.saveSettings();
           })
       );
 
+    const mappingSetting = new Setting(containerEl)
+      .setName("Path mappings")
+      .setDesc(PATH_MAPPINGS_DESCRIPTION);
+    mappingSetting.addTextArea((text) =>
+      text
+        .setPlaceholder("Work -> notes")
+        .setValue(formatPathMappings(profile.pathMappings))
+        .onChange(async (value) => {
+          const mappings = parsePathMappings(value);
+          if (!mappings) {
+            mappingSetting.setDesc("Each line needs exactly one -> between the vault and repository folder.");
+            text.inputEl.addClass("github-api-sync-invalid");
+            return;
+          }
+          mappingSetting.setDesc(PATH_MAPPINGS_DESCRIPTION);
+          text.inputEl.removeClass("github-api-sync-invalid");
+          profile.pathMappings = mappings;
+          await this.plugin.saveSettings();
+        })
+    );
+
     new Setting(containerEl)
       .setName("Ignore patterns")
-      .setDesc("Comma-separated list of ignore patterns.")
+      .setDesc(
+        "Comma-separated list of gitignore-style patterns, applied after the rules in .syncignore. Prefix a pattern with ! to re-include matching files."
+      )
       .addTextArea((text) =>
         text
           .setPlaceholder(".git/")
-          .setValue(this.plugin.settings.ignorePatterns.join(", "))
+          .setValue(profile.ignorePatterns.join(", "))
           .onChange(async (value) => {
-            this.plugin.settings.ignorePatterns = value
+            profile.ignorePatterns = value
               .split(",")
               .map((entry) => entry.trim())
               .filter((entry) => entry.length > 0);
@@ -93,6 +157,16 @@ export class SettingsView extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Use .gitignore")
+      .setDesc("Also apply the .gitignore file from the vault root and the repository.")
+      .addToggle((toggle) =>
+        toggle.setValue(profile.useGitignore).onChange(async (value) => {
+          profile.useGitignore = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
     new Setting(containerEl)
       .setName("Conflict policy")
       .addDropdown((dropdown) =>
@@ -100,10 +174,75 @@ export class SettingsView extends PluginSettingTab {
           .addOption("keepBoth", "Keep both")
           .addOption("preferLocal", "Prefer local")
           .addOption("preferRemote", "Prefer remote")
+          .addOption("markers", "Conflict markers")
+          .addOption("newestWins", "Newest wins")
           .addOption("manual", "Manual")
-          .setValue(this.plugin.settings.conflictPolicy)
+          .setValue(profile.conflictPolicy)
           .onChange(async (value) => {
-            this.plugin.settings.conflictPolicy = value as typeof this.plugin.settings.conflictPolicy;
+            profile.conflictPolicy = value as SyncProfile["conflictPolicy"];
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const rulesSetting = new Setting(containerEl)
+      .setName("Conflict rules")
+      .setDesc(CONFLICT_RULES_DESCRIPTION);
+    rulesSetting.addTextArea((text) =>
+      text
+        .setPlaceholder("Shared/** -> preferRemote\n*.png -> keepBoth")
+        .setValue(formatConflictRules(profile.conflictRules))
+        .onChange(async (value) => {
+          const rules = parseConflictRules(value);
+          if (!rules) {
+            rulesSetting.setDesc(
+              "Each line needs a glob, ->, and one of preferLocal, preferRemote, keepBoth, markers, newestWins or manual."
+            );
+            text.inputEl.addClass("github-api-sync-invalid");
+            return;
+          }
+          rulesSetting.setDesc(CONFLICT_RULES_DESCRIPTION);
+          text.inputEl.removeClass("github-api-sync-invalid");
+          profile.conflictRules = rules;
+          await this.plugin.saveSettings();
+        })
+    );
+
+    const driversSetting = new Setting(containerEl)
+      .setName("Merge drivers")
+      .setDesc(MERGE_DRIVERS_DESCRIPTION);
+    driversSetting.addTextArea((text) =>
+      text
+        .setPlaceholder("Journal/** -> append-only\n*.csv -> take-remote")
+        .setValue(formatMergeDriverRules(profile.mergeDriverRules))
+        .onChange(async (value) => {
+          const rules = parseMergeDriverRules(value);
+          if (!rules) {
+            driversSetting.setDesc("Each line needs a glob, ->, and a merge driver name.");
+            text.inputEl.addClass("github-api-sync-invalid");
+            return;
+          }
+          driversSetting.setDesc(MERGE_DRIVERS_DESCRIPTION);
+          text.inputEl.removeClass("github-api-sync-invalid");
+          profile.mergeDriverRules = rules;
+          await this.plugin.saveSettings();
+        })
+    );
+
+    new Setting(containerEl)
+      .setName("Newest-wins tolerance (seconds)")
+      .setDesc(
+        "With the newest wins policy, a local and a remote change closer together than this are kept as both versions."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("60")
+          .setValue(String(profile.newestWinsToleranceSeconds))
+          .onChange(async (value) => {
+            const seconds = Number(value.trim());
+            if (value.trim().length === 0 || !Number.isFinite(seconds) || seconds < 0) {
+              return;
+            }
+            profile.newestWinsToleranceSeconds = seconds;
             await this.plugin.saveSettings();
           })
       );
@@ -115,16 +254,83 @@ export class SettingsView extends PluginSettingTab {
         text
           .setPlaceholder("15")
           .setValue(
-            this.plugin.settings.syncIntervalMinutes === null
+            profile.syncIntervalMinutes === null
               ? ""
-              : String(this.plugin.settings.syncIntervalMinutes)
+              : String(profile.syncIntervalMinutes)
           )
           .onChange(async (value) => {
             const trimmed = value.trim();
-            this.plugin.settings.syncIntervalMinutes =
+            profile.syncIntervalMinutes =
               trimmed.length === 0 ? null : Number(trimmed);
             await this.plugin.saveSettings();
           })
       );
+
+    new Setting(containerEl)
+      .setName("Full scan interval (hours)")
+      .setDesc(
+        "Between full scans, sync only rehashes files changed since the last one. Set to 0 to scan the whole vault on every sync."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("24")
+          .setValue(String(this.plugin.settings.fullScanIntervalHours))
+          .onChange(async (value) => {
+            const hours = Number(value.trim());
+            if (value.trim().length === 0 || !Number.isFinite(hours) || hours < 0) {
+              return;
+            }
+            this.plugin.settings.fullScanIntervalHours = hours;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private renderProfileControls(containerEl: HTMLElement, profile: SyncProfile): void {
+    new Setting(containerEl)
+      .setName("Profile")
+      .setDesc("Each profile syncs to its own repository or branch and keeps its own sync state.")
+      .addDropdown((dropdown) => {
+        for (const entry of this.plugin.settings.profiles) {
+          dropdown.addOption(entry.id, entry.name);
+        }
+        dropdown.setValue(profile.id).onChange(async (value) => {
+          this.plugin.settings.activeProfileId = value;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Add profile").onClick(async () => {
+          await this.plugin.addProfile();
+          this.display();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Remove")
+          .setWarning()
+          .setDisabled(this.plugin.settings.profiles.length <= 1)
+          .onClick(async () => {
+            const confirmed = await new ConfirmModal(
+              this.app,
+              "Remove profile",
+              `Remove "${profile.name}"? Its settings, sync history, conflicts and logs are deleted. Files in the vault and the repository are not changed.`,
+              "Remove"
+            ).confirm();
+            if (!confirmed) {
+              return;
+            }
+            await this.plugin.removeProfile(profile.id);
+            this.display();
+          })
+      );
+
+    new Setting(containerEl).setName("Profile name").addText((text) =>
+      text.setValue(profile.name).onChange(async (value) => {
+        profile.name = value.trim() || profile.name;
+        await this.plugin.saveSettings();
+      })
+    );
   }
 }
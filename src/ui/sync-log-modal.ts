@@ -1,21 +1,32 @@
 import { Modal, Setting } from "obsidian";
 import type GitHubApiSyncPlugin from "../main";
+import { renderProfilePicker } from "./profile-picker";
 
 export class SyncLogModal extends Modal {
   private plugin: GitHubApiSyncPlugin;
+  private profileId: string;
 
   constructor(plugin: GitHubApiSyncPlugin) {
     super(plugin.app);
     this.plugin = plugin;
+    this.profileId = plugin.getActiveProfile().id;
   }
 
   async onOpen(): Promise<void> {
+    await this.render();
+  }
+
+  private async render(): Promise<void> {
     const { contentEl } = this;
     contentEl.empty();
 
     new Setting(contentEl).setHeading().setName("Sync log");
+    renderProfilePicker(contentEl, this.plugin, this.profileId, async (profileId) => {
+      this.profileId = profileId;
+      await this.render();
+    });
 
-    const logs = await this.plugin.loadSyncLogs();
+    const logs = await this.plugin.loadSyncLogs(this.profileId);
     if (logs.length === 0) {
       contentEl.createEl("p", { text: "No logs yet." });
       return;
@@ -16,7 +16,7 @@ describe("ConflictActionRunner", () => {
     const vault = new FakeVault();
     const app = new FakeApp(vault);
     const client = {
-      getFile: vi.fn().mockResolvedValue({ content: "Zg==", sha: "s" }),
+      getBlobSha: vi.fn().mockResolvedValue("s"),
       putFile: vi.fn(),
       deleteFile: vi.fn(),
     };
@@ -39,7 +39,7 @@ describe("ConflictActionRunner", () => {
     const vault = new FakeVault();
     const app = new FakeApp(vault);
     const client = {
-      getFile: vi.fn().mockResolvedValue({ content: "Zg==", sha: "s" }),
+      getBlobSha: vi.fn().mockResolvedValue("s"),
       putFile: vi.fn(),
       deleteFile: vi.fn(),
     };
@@ -63,7 +63,8 @@ describe("ConflictActionRunner", () => {
     await vault.createBinary("note.md", new Uint8Array([1]));
     const app = new FakeApp(vault);
     const client = {
-      getFile: vi.fn().mockRejectedValue(new Error("not found")),
+      getFile: vi.fn(),
+      getBlobSha: vi.fn().mockResolvedValue("remote-sha"),
       putFile: vi.fn(),
       deleteFile: vi.fn(),
     };
@@ -79,7 +80,42 @@ describe("ConflictActionRunner", () => {
       conflictPolicy: "manual",
     });
 
-    expect(client.putFile).toHaveBeenCalledOnce();
+    expect(client.getFile).not.toHaveBeenCalled();
+    expect(client.putFile).toHaveBeenCalledWith(
+      "note.md",
+      expect.any(String),
+      "conflict: keep local note.md",
+      "remote-sha",
+      "main"
+    );
+  });
+
+  it("keepLocal refuses to push a markers conflict that still has markers", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary(
+      "note.md",
+      new TextEncoder().encode("<<<<<<< local\na\n=======\nb\n>>>>>>> remote\n")
+    );
+    const app = new FakeApp(vault);
+    const client = {
+      getBlobSha: vi.fn(),
+      putFile: vi.fn(),
+      deleteFile: vi.fn(),
+    };
+
+    const runner = new ConflictActionRunner(app as any, client as any);
+    await expect(
+      runner.resolve({ ...makeRecord("modify-modify"), policy: "markers" }, "keepLocal", {
+        token: "t",
+        owner: "o",
+        repo: "r",
+        branch: "main",
+        rootPath: "",
+        ignorePatterns: [],
+        conflictPolicy: "markers",
+      })
+    ).rejects.toThrow("still contains conflict markers");
+    expect(client.putFile).not.toHaveBeenCalled();
   });
 
   it("keepRemote deletes local on delete-modify-remote", async () => {
@@ -197,4 +233,35 @@ describe("ConflictActionRunner", () => {
     expect(hasIncremented).toBe(true);
     vi.useRealTimers();
   });
+
+  it("keepRemote downloads the current remote version, not the recorded one", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("note.md", new Uint8Array([1]));
+    const app = new FakeApp(vault);
+    const client = {
+      getFile: vi.fn().mockResolvedValue({ content: "Zg==", sha: "current-sha" }),
+      getBlob: vi.fn(),
+      putFile: vi.fn(),
+      deleteFile: vi.fn(),
+    };
+
+    const runner = new ConflictActionRunner(app as any, client as any);
+    await runner.resolve(
+      { ...makeRecord("modify-modify"), remoteVersion: { sha: "stale-sha", lastCommitTime: 0 } },
+      "keepRemote",
+      {
+        token: "t",
+        owner: "o",
+        repo: "r",
+        branch: "main",
+        rootPath: "",
+        ignorePatterns: [],
+        conflictPolicy: "manual",
+      }
+    );
+
+    expect(client.getFile).toHaveBeenCalledWith("note.md", "main");
+    expect(client.getBlob).not.toHaveBeenCalled();
+    expect(Buffer.from(vault.files.get("note.md")!.data).toString()).toBe("f");
+  });
 });
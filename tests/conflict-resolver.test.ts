@@ -1,9 +1,24 @@
 import { describe, expect, it } from "vitest";
 import { DefaultConflictResolver } from "../src/core/conflict-resolver";
-import type { SyncOp } from "../src/types/sync-types";
+import type { MergeDriverRule, SyncOp } from "../src/types/sync-types";
 
 const resolver = new DefaultConflictResolver();
 
+const mergeText = async (
+  path: string,
+  base: string,
+  local: string,
+  remote: string,
+  rules?: MergeDriverRule[]
+): Promise<string | null> => {
+  const encoder = new TextEncoder();
+  const { content } = await resolver.merge(
+    { path, base: encoder.encode(base), local: encoder.encode(local), remote: encoder.encode(remote) },
+    rules
+  );
+  return content ? new TextDecoder().decode(content) : null;
+};
+
 const conflict = (reason: string): SyncOp => ({
   type: "conflict",
   path: "note.md",
@@ -60,4 +75,100 @@ describe("DefaultConflictResolver", () => {
     expect(resolvedOps).toEqual([]);
     expect(conflictRecords).toHaveLength(1);
   });
+
+  it("merges non-overlapping edits of text files only", async () => {
+    expect(await mergeText("note.md", "a\n-\nb\n", "A\n-\nb\n", "a\n-\nB\n")).toBe("A\n-\nB\n");
+    expect(await mergeText("note.md", "a\n", "L\n", "R\n")).toBeNull();
+    expect(resolver.canMerge("image.png")).toBe(false);
+    expect(await mergeText("image.png", "a\n-\nb\n", "A\n-\nb\n", "a\n-\nB\n")).toBeNull();
+  });
+
+  it("merges canvas and JSON files by structure", async () => {
+    const base = '{"nodes":[{"id":"a","x":0},{"id":"b","x":0}],"edges":[]}';
+    const local = '{"nodes":[{"id":"a","x":1},{"id":"b","x":0}],"edges":[]}';
+    const remote = '{"nodes":[{"id":"a","x":0},{"id":"b","x":2}],"edges":[]}';
+
+    expect(resolver.canMerge("board.canvas")).toBe(true);
+    expect(await mergeText("board.canvas", base, local, remote)).toBe(
+      '{"nodes":[{"id":"a","x":1},{"id":"b","x":2}],"edges":[]}'
+    );
+    expect(await mergeText("data.json", base, local, remote)).toBeNull();
+    expect(resolver.mergeWithMarkers("board.canvas", base, local, remote)).toBeNull();
+  });
+
+  it("uses the merge driver a rule names", async () => {
+    const rules = [{ pattern: "Logs/**", driver: "union" }];
+
+    expect(resolver.canMerge("Logs/app.log", rules)).toBe(true);
+    expect(await mergeText("Logs/app.log", "a\n", "a\nL\n", "a\nR\n", rules)).toBe("a\nL\nR\n");
+    expect(await mergeText("note.md", "a\n", "L\n", "R\n", [{ pattern: "*.md", driver: "take-remote" }])).toBe(
+      "R\n"
+    );
+  });
+
+  it("applies the first matching rule per conflict and records it", () => {
+    const { resolvedOps, conflictRecords } = resolver.resolve(
+      [
+        { type: "conflict", path: "Daily/today.md", reason: "modify-modify" },
+        { type: "conflict", path: "Shared/plan.md", reason: "modify-modify" },
+        { type: "conflict", path: "Other/note.md", reason: "modify-modify" },
+      ],
+      "manual",
+      {
+        rules: [
+          { pattern: "Daily/**", policy: "preferLocal" },
+          { pattern: "Shared/**", policy: "preferRemote" },
+        ],
+      }
+    );
+
+    expect(resolvedOps).toEqual([
+      { type: "push_update", path: "Daily/today.md" },
+      { type: "pull_update", path: "Shared/plan.md" },
+    ]);
+    expect(conflictRecords.map((record) => [record.path, record.policy, record.rule])).toEqual([
+      ["Daily/today.md", "preferLocal", "Daily/**"],
+      ["Shared/plan.md", "preferRemote", "Shared/**"],
+      ["Other/note.md", "manual", undefined],
+    ]);
+  });
+
+  it("resolves newestWins by modification and commit time", () => {
+    const local = (path: string, mtime: number) => ({ path, hash: "h", blobSha: "b", mtime, size: 1 });
+    const remote = (path: string, lastCommitTime: number) => ({ path, sha: "s", size: 1, lastCommitTime });
+    const { resolvedOps, conflictRecords } = resolver.resolve(
+      [
+        { type: "conflict", path: "local.md", reason: "modify-modify" },
+        { type: "conflict", path: "remote.md", reason: "modify-modify" },
+        { type: "conflict", path: "close.md", reason: "modify-modify" },
+        { type: "conflict", path: "deleted.md", reason: "delete-modify-local" },
+      ],
+      "newestWins",
+      {
+        local: {
+          "local.md": local("local.md", 200_000),
+          "remote.md": local("remote.md", 100_000),
+          "close.md": local("close.md", 100_000),
+        },
+        remote: {
+          "local.md": remote("local.md", 100_000),
+          "remote.md": remote("remote.md", 200_000),
+          "close.md": remote("close.md", 130_000),
+          "deleted.md": remote("deleted.md", 100_000),
+        },
+        newestWinsToleranceSeconds: 60,
+      }
+    );
+
+    expect(resolvedOps).toEqual([
+      { type: "push_update", path: "local.md" },
+      { type: "pull_update", path: "remote.md" },
+    ]);
+    expect(conflictRecords.map((record) => record.decision?.winner)).toEqual([
+      "local",
+      "remote",
+      "both",
+      "both",
+    ]);
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  ConflictPolicyRules,
+  formatConflictRules,
+  parseConflictRules,
+} from "../src/core/conflict-rules";
+
+describe("ConflictPolicyRules", () => {
+  const rules = new ConflictPolicyRules(
+    [
+      { pattern: "Daily/**", policy: "preferLocal" },
+      { pattern: "Shared/**", policy: "preferRemote" },
+      { pattern: "*.png", policy: "keepBoth" },
+    ],
+    "manual"
+  );
+
+  it("uses the first matching rule", () => {
+    expect(rules.match("Daily/2024/01-01.md")).toEqual({ policy: "preferLocal", rule: "Daily/**" });
+    expect(rules.match("Shared/plan.md")).toEqual({ policy: "preferRemote", rule: "Shared/**" });
+    expect(rules.match("Daily/photo.png")).toEqual({ policy: "preferLocal", rule: "Daily/**" });
+  });
+
+  it("matches patterns without a slash against the file name", () => {
+    expect(rules.policyFor("Attachments/photo.png")).toBe("keepBoth");
+  });
+
+  it("falls back to the default policy", () => {
+    expect(rules.match("Projects/todo.md")).toEqual({ policy: "manual" });
+  });
+});
+
+describe("parseConflictRules", () => {
+  it("parses one rule per line and skips blank lines", () => {
+    const rules = parseConflictRules("Daily/** -> preferLocal\n\n*.png -> keepBoth\n");
+    expect(rules).toEqual([
+      { pattern: "Daily/**", policy: "preferLocal" },
+      { pattern: "*.png", policy: "keepBoth" },
+    ]);
+    expect(formatConflictRules(rules ?? [])).toBe("Daily/** -> preferLocal\n*.png -> keepBoth");
+  });
+
+  it("rejects unknown policies and malformed lines", () => {
+    expect(parseConflictRules("Daily/** -> newest")).toBeNull();
+    expect(parseConflictRules("Daily/**")).toBeNull();
+    expect(parseConflictRules(" -> keepBoth")).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { EtagCache } from "../src/clients/etag-cache";
+
+const memoryStore = () => {
+  let saved: unknown = null;
+  return {
+    load: async () => saved,
+    save: async (value: unknown) => {
+      saved = value;
+    },
+  };
+};
+
+describe("EtagCache", () => {
+  it("persists entries in its own store", async () => {
+    const store = memoryStore();
+    const cache = new EtagCache(store as any);
+    cache.set("https://x", '"e"', { sha: "s" });
+    await cache.save();
+
+    const reloaded = new EtagCache(store as any);
+    await reloaded.load();
+    expect(reloaded.get("https://x")).toEqual(expect.objectContaining({ etag: '"e"', json: { sha: "s" } }));
+    expect(reloaded.isDirty()).toBe(false);
+  });
+
+  it("skips bodies over the entry limit", () => {
+    const cache = new EtagCache(null, { maxEntryBytes: 20 });
+    cache.set("https://small", '"a"', { sha: "s" });
+    cache.set("https://large", '"b"', { content: "x".repeat(50) });
+
+    expect(Object.keys(cache.toJSON())).toEqual(["https://small"]);
+  });
+
+  it("evicts the least recently used entries over the byte limit", () => {
+    // Each body below serializes to 13 bytes.
+    const cache = new EtagCache(null, { maxBytes: 30 });
+    cache.set("https://one", '"1"', { sha: "one" });
+    cache.set("https://two", '"2"', { sha: "two" });
+    cache.get("https://one");
+    cache.set("https://six", '"6"', { sha: "six" });
+
+    expect(Object.keys(cache.toJSON())).toEqual(["https://one", "https://six"]);
+  });
+});
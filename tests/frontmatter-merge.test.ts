@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { mergeNote } from "../src/core/frontmatter-merge";
+
+const note = (frontmatter: string, body = "Body\n") => `---\n${frontmatter}---\n${body}`;
+
+describe("mergeNote", () => {
+  const base = note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n");
+
+  it("merges properties changed on different sides", () => {
+    const local = note("status: done\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n");
+    const remote = note("status: draft\ndue: 2024-02-01\ntags:\n  - work\n  - todo\n");
+
+    expect(mergeNote(base, local, remote)).toEqual({
+      text: note("status: done\ndue: 2024-02-01\ntags:\n  - work\n  - todo\n"),
+      conflictingKeys: [],
+    });
+  });
+
+  it("unions list values and drops items either side removed", () => {
+    const local = note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - urgent\n");
+    const remote = note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n  - home\n");
+
+    expect(mergeNote(base, local, remote).text).toBe(
+      note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - urgent\n  - home\n")
+    );
+  });
+
+  it("unions flow lists and lists added on both sides", () => {
+    const local = note("aliases: [a, b]\n");
+    const remote = note("aliases: [a, c]\n");
+
+    expect(mergeNote(note(""), local, remote).text).toBe(note("aliases: [a, b, c]\n"));
+  });
+
+  it("adds and removes properties", () => {
+    const local = note("status: draft\ntags:\n  - work\n  - todo\n");
+    const remote = note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - todo\nowner: sam\n");
+
+    expect(mergeNote(base, local, remote).text).toBe(
+      note("status: draft\ntags:\n  - work\n  - todo\nowner: sam\n")
+    );
+  });
+
+  it("merges the body separately", () => {
+    const local = note("status: done\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n", "Body\n");
+    const remote = note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n", "Body\nMore\n");
+
+    expect(mergeNote(base, local, remote).text).toBe(
+      note("status: done\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n", "Body\nMore\n")
+    );
+  });
+
+  it("reports properties both sides changed differently", () => {
+    const local = note("status: done\ndue: 2024-03-01\ntags:\n  - work\n  - todo\n");
+    const remote = note("status: blocked\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n");
+
+    expect(mergeNote(base, local, remote)).toEqual({ text: null, conflictingKeys: ["status"] });
+  });
+
+  it("fails when the body edits overlap", () => {
+    const local = note("status: done\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n", "Local\n");
+    const remote = note("status: draft\ndue: 2024-01-01\ntags:\n  - work\n  - todo\n", "Remote\n");
+
+    expect(mergeNote(base, local, remote)).toEqual({ text: null, conflictingKeys: [] });
+  });
+
+  it("merges notes without frontmatter as plain text", () => {
+    expect(mergeNote("a\n-\nb\n", "A\n-\nb\n", "a\n-\nB\n").text).toBe("A\n-\nB\n");
+  });
+});
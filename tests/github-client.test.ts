@@ -1,5 +1,7 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import { GitHubApiClient } from "../src/clients/github-client";
+import { RateLimitTracker } from "../src/clients/rate-limit-tracker";
+import { EtagCache } from "../src/clients/etag-cache";
 
 // Mock obsidian module
 vi.mock("obsidian", () => ({
@@ -111,4 +113,288 @@ describe("GitHubApiClient", () => {
     const callArgs = requestUrlMock.mock.calls[0][0];
     expect(callArgs.url).toContain("folder/a%20b.md");
   });
+
+  it("uses a custom API base URL", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValue(makeResponse({ status: 200, json: { sha: "s" } }));
+
+    const client = new GitHubApiClient("t", "o", "r", { baseUrl: "https://ghe.example.com" });
+    await client.getCommitSha("main");
+
+    const callArgs = requestUrlMock.mock.calls[0][0];
+    expect(callArgs.url).toBe("https://ghe.example.com/api/v3/repos/o/r/commits/main");
+  });
+
+  it("links the configured server in 404 errors", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValue(makeResponse({ status: 404, text: "Not Found" }));
+
+    const client = new GitHubApiClient("t", "o", "r", {
+      baseUrl: "https://ghe.example.com/api/v3",
+    });
+    await expect(client.getCommitSha("main")).rejects.toThrow("https://ghe.example.com/o/r");
+  });
+
+  it("does not retry a permissions 403", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValue(
+      makeResponse({
+        status: 403,
+        text: "Resource not accessible by personal access token",
+        headers: { "x-ratelimit-remaining": "4000" },
+      })
+    );
+
+    const client = new GitHubApiClient("t", "o", "r");
+    await expect(client.getCommitSha("main")).rejects.toThrow("permission denied (403)");
+    expect(requestUrlMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for retry-after on a secondary rate limit", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({
+        status: 403,
+        text: "You have exceeded a secondary rate limit",
+        headers: { "retry-after": "30" },
+      })
+    );
+    requestUrlMock.mockResolvedValueOnce(makeResponse({ status: 200, json: { sha: "s" } }));
+
+    const client = new GitHubApiClient("t", "o", "r");
+    const waits: Array<{ kind: string; waitMs: number }> = [];
+    client.setRateLimitListener((wait) => waits.push(wait));
+    const promise = client.getCommitSha("main");
+    await vi.runAllTimersAsync();
+
+    expect(await promise).toBe("s");
+    expect(waits).toEqual([
+      { kind: "secondary", waitMs: 30_000, resumeAt: Date.parse("2024-01-01T00:00:30Z") },
+    ]);
+    vi.useRealTimers();
+  });
+
+  it("pauses until reset when the shared budget is exhausted", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+    const resetSeconds = Date.parse("2024-01-01T00:10:00Z") / 1000;
+
+    requestUrlMock.mockResolvedValue(
+      makeResponse({
+        status: 200,
+        json: { sha: "s" },
+        headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(resetSeconds) },
+      })
+    );
+
+    const rateLimiter = new RateLimitTracker();
+    const first = new GitHubApiClient("t", "o", "r", { rateLimiter });
+    await first.getCommitSha("main");
+
+    const second = new GitHubApiClient("t", "o", "r", { rateLimiter });
+    const waits: number[] = [];
+    second.setRateLimitListener((wait) => waits.push(wait.waitMs));
+    const promise = second.getCommitSha("main");
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(waits).toEqual([10 * 60 * 1000 + 1000]);
+    vi.useRealTimers();
+  });
+
+  it("serves unchanged GET responses from the ETag cache", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({ status: 200, json: { sha: "s1" }, headers: { etag: 'W/"abc"' } })
+    );
+    requestUrlMock.mockResolvedValueOnce(makeResponse({ status: 304, json: null }));
+
+    const etagCache = new EtagCache();
+    const client = new GitHubApiClient("t", "o", "r", { etagCache });
+    expect(await client.getCommitSha("main")).toBe("s1");
+    expect(await client.getCommitSha("main")).toBe("s1");
+
+    const secondCall = requestUrlMock.mock.calls[1][0] as { headers: Record<string, string> };
+    expect(secondCall.headers["If-None-Match"]).toBe('W/"abc"');
+    expect(etagCache.isDirty()).toBe(true);
+  });
+
+  it("does not cache file contents", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValue(
+      makeResponse({ status: 200, json: { content: "Zg==", sha: "s" }, headers: { etag: '"f"' } })
+    );
+
+    const etagCache = new EtagCache();
+    const client = new GitHubApiClient("t", "o", "r", { etagCache });
+    await client.getFile("a.md", "main");
+
+    expect(etagCache.toJSON()).toEqual({});
+  });
+
+  it("falls back to the blobs API for files over 1 MB", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({ status: 200, json: { content: "", encoding: "none", sha: "big" } })
+    );
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({ status: 200, json: { content: "Zm9v\nYmFy", encoding: "base64", sha: "big" } })
+    );
+
+    const client = new GitHubApiClient("t", "o", "r");
+    const result = await client.getFile("big.pdf", "main");
+
+    expect(result).toEqual({ content: "Zm9vYmFy", sha: "big" });
+    const blobCall = requestUrlMock.mock.calls[1][0] as { url: string };
+    expect(blobCall.url).toBe("https://api.github.com/repos/o/r/git/blobs/big");
+  });
+
+  it("walks subtrees when the recursive tree is truncated", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    const trees: Record<string, unknown> = {
+      "main?recursive=1": { truncated: true, tree: [{ path: "a.md", sha: "s-a", type: "blob" }] },
+      main: {
+        tree: [
+          { path: "a.md", sha: "s-a", type: "blob", size: 1 },
+          { path: "docs", sha: "t-docs", type: "tree" },
+          { path: "big", sha: "t-big", type: "tree" },
+        ],
+      },
+      "t-docs?recursive=1": {
+        tree: [
+          { path: "x", sha: "t-x", type: "tree" },
+          { path: "x/b.md", sha: "s-b", type: "blob", size: 2 },
+        ],
+      },
+      "t-big?recursive=1": { truncated: true, tree: [] },
+      "t-big": {
+        tree: [
+          { path: "c.md", sha: "s-c", type: "blob", size: 3 },
+          { path: "deep", sha: "t-deep", type: "tree" },
+        ],
+      },
+      "t-deep?recursive=1": { tree: [{ path: "d.md", sha: "s-d", type: "blob", size: 4 }] },
+    };
+    requestUrlMock.mockImplementation(async (request) => {
+      const url = new URL((request as { url: string }).url);
+      const key = url.pathname.split("/").pop() + url.search;
+      return makeResponse({ status: 200, json: trees[key] }) as any;
+    });
+
+    const client = new GitHubApiClient("t", "o", "r");
+    const index = await client.listTree("main");
+
+    expect(Object.keys(index).sort()).toEqual(["a.md", "big/c.md", "big/deep/d.md", "docs/x/b.md"]);
+    expect(index["big/deep/d.md"].sha).toBe("s-d");
+    expect(client.getLastTreeListing()).toEqual({ truncated: true, subtreeRequests: 4 });
+  });
+
+  it("looks up a blob sha from the file's folder listing", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({
+        status: 200,
+        json: [
+          { name: "a.md", path: "my docs/a.md", type: "file", sha: "s-a" },
+          { name: "sub", path: "my docs/sub", type: "dir", sha: "t-sub" },
+        ],
+      })
+    );
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({ status: 200, json: [{ name: "b.md", path: "b.md", type: "file", sha: "s-b" }] })
+    );
+    requestUrlMock.mockResolvedValueOnce(makeResponse({ status: 404, text: "Not Found" }));
+
+    const client = new GitHubApiClient("t", "o", "r");
+    expect(await client.getBlobSha("my docs/a.md", "main")).toBe("s-a");
+    expect((requestUrlMock.mock.calls[0][0] as { url: string }).url).toBe(
+      "https://api.github.com/repos/o/r/contents/my%20docs?ref=main"
+    );
+    expect(await client.getBlobSha("b.md", "feature/x")).toBe("s-b");
+    expect((requestUrlMock.mock.calls[1][0] as { url: string }).url).toBe(
+      "https://api.github.com/repos/o/r/contents/?ref=feature%2Fx"
+    );
+    expect(await client.getBlobSha("missing/a.md", "main")).toBeNull();
+  });
+
+  it("pages through compare commits", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    const commit = (i: number) => ({
+      sha: `c${i}`,
+      commit: { committer: { date: new Date(i * 1000).toISOString() } },
+    });
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({
+        status: 200,
+        json: {
+          status: "ahead",
+          total_commits: 150,
+          files: [{ filename: "a.md", status: "modified", sha: "s" }],
+          commits: Array.from({ length: 100 }, (_, i) => commit(i)),
+        },
+      })
+    );
+    requestUrlMock.mockResolvedValueOnce(
+      makeResponse({
+        status: 200,
+        json: { total_commits: 150, commits: Array.from({ length: 50 }, (_, i) => commit(100 + i)) },
+      })
+    );
+
+    const client = new GitHubApiClient("t", "o", "r");
+    const result = await client.compareCommits("base", "main");
+
+    expect(requestUrlMock).toHaveBeenCalledTimes(2);
+    const secondCall = requestUrlMock.mock.calls[1][0] as { url: string };
+    expect(secondCall.url).toContain("page=2");
+    expect(result.status).toBe("ahead");
+    expect(result.commits).toHaveLength(150);
+    expect(result.files).toHaveLength(1);
+    expect(result.headCommitDate).toBe(new Date(149 * 1000).toISOString());
+    expect(result.complete).toBe(true);
+  });
+
+  it("marks a comparison with 300 files as incomplete", async () => {
+    const { requestUrl } = await import("obsidian");
+    const requestUrlMock = vi.mocked(requestUrl);
+
+    requestUrlMock.mockResolvedValue(
+      makeResponse({
+        status: 200,
+        json: {
+          total_commits: 1,
+          files: Array.from({ length: 300 }, (_, i) => ({ filename: `f${i}`, status: "added" })),
+          commits: [{ sha: "c", commit: { committer: { date: "2024-01-01T00:00:00Z" } } }],
+        },
+      })
+    );
+
+    const client = new GitHubApiClient("t", "o", "r");
+    const result = await client.compareCommits("base", "main");
+
+    expect(result.complete).toBe(false);
+  });
 });
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_API_BASE_URL,
+  getWebBaseUrl,
+  isValidApiBaseUrl,
+  normalizeApiBaseUrl,
+} from "../src/clients/github-endpoint";
+
+describe("github endpoint", () => {
+  it("defaults to api.github.com", () => {
+    expect(normalizeApiBaseUrl("")).toBe(DEFAULT_API_BASE_URL);
+    expect(normalizeApiBaseUrl("https://github.com")).toBe(DEFAULT_API_BASE_URL);
+    expect(normalizeApiBaseUrl("https://api.github.com/")).toBe(DEFAULT_API_BASE_URL);
+  });
+
+  it("appends /api/v3 to a bare enterprise host", () => {
+    expect(normalizeApiBaseUrl("https://ghe.example.com")).toBe("https://ghe.example.com/api/v3");
+    expect(normalizeApiBaseUrl("https://ghe.example.com/api/v3/")).toBe(
+      "https://ghe.example.com/api/v3"
+    );
+  });
+
+  it("rejects invalid URLs", () => {
+    expect(isValidApiBaseUrl("ghe.example.com")).toBe(false);
+    expect(isValidApiBaseUrl("ftp://ghe.example.com")).toBe(false);
+    expect(isValidApiBaseUrl("https://ghe.example.com/api/v3?x=1")).toBe(false);
+    expect(() => normalizeApiBaseUrl("not a url")).toThrow("Invalid GitHub API URL");
+  });
+
+  it("derives the web URL", () => {
+    expect(getWebBaseUrl(DEFAULT_API_BASE_URL)).toBe("https://github.com");
+    expect(getWebBaseUrl("https://ghe.example.com/api/v3")).toBe("https://ghe.example.com");
+  });
+});
@@ -19,6 +19,10 @@ export class FakeTFile extends TFile {
 export class FakeVault {
   files = new Map<string, Stored>();
   folders = new Set<string>();
+  adapter = {
+    exists: async (path: string) => this.files.has(path) || this.folders.has(path),
+    read: async (path: string) => new TextDecoder().decode(this.files.get(path)?.data),
+  };
 
   getFiles(): TFile[] {
     return Array.from(this.files.values()).map((entry) => entry.file);
@@ -53,6 +57,14 @@ export class FakeVault {
     }
   }
 
+  async read(file: TFile): Promise<string> {
+    return new TextDecoder().decode(await this.readBinary(file));
+  }
+
+  async modify(file: TFile, data: string): Promise<void> {
+    await this.modifyBinary(file, new TextEncoder().encode(data));
+  }
+
   async delete(file: TFile): Promise<void> {
     this.files.delete((file as FakeTFile).path);
   }
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { IgnoreMatcher, mapIgnoreRules } from "../src/core/ignore-matcher";
+import { PathMapper } from "../src/core/path-mapper";
+
+describe("IgnoreMatcher", () => {
+  it("matches unanchored patterns at any depth", () => {
+    const matcher = new IgnoreMatcher(["*.tmp", "build"]);
+    expect(matcher.isIgnored("a.tmp")).toBe(true);
+    expect(matcher.isIgnored("notes/deep/b.tmp")).toBe(true);
+    expect(matcher.isIgnored("src/build/out.js")).toBe(true);
+    expect(matcher.isIgnored("notes/a.md")).toBe(false);
+  });
+
+  it("anchors patterns that contain a slash", () => {
+    const matcher = new IgnoreMatcher(["/todo.md", "docs/*.pdf"]);
+    expect(matcher.isIgnored("todo.md")).toBe(true);
+    expect(matcher.isIgnored("notes/todo.md")).toBe(false);
+    expect(matcher.isIgnored("docs/a.pdf")).toBe(true);
+    expect(matcher.isIgnored("docs/sub/a.pdf")).toBe(false);
+    expect(matcher.isIgnored("other/docs/a.pdf")).toBe(false);
+  });
+
+  it("applies directory-only rules to parent folders only", () => {
+    const matcher = new IgnoreMatcher(["cache/"]);
+    expect(matcher.isIgnored("cache/data.bin")).toBe(true);
+    expect(matcher.isIgnored("nested/cache/data.bin")).toBe(true);
+    expect(matcher.isIgnored("cache")).toBe(false);
+  });
+
+  it("re-includes files with negation, last rule wins", () => {
+    const matcher = new IgnoreMatcher(["attachments/*", "!attachments/keep.png", "!*.md", "*.md"]);
+    expect(matcher.isIgnored("attachments/photo.png")).toBe(true);
+    expect(matcher.isIgnored("attachments/keep.png")).toBe(false);
+    expect(matcher.isIgnored("note.md")).toBe(true);
+  });
+
+  it("does not re-include files inside an ignored directory", () => {
+    const matcher = new IgnoreMatcher(["private/", "!private/shared.md"]);
+    expect(matcher.isIgnored("private/shared.md")).toBe(true);
+  });
+
+  it("skips comments and blank lines and honours escapes", () => {
+    const lines = IgnoreMatcher.parseFile("# comment\n\n\\#literal.md\r\n\\!bang.md\ntrailing.md   \n");
+    const matcher = new IgnoreMatcher(lines);
+    expect(matcher.isIgnored("#literal.md")).toBe(true);
+    expect(matcher.isIgnored("!bang.md")).toBe(true);
+    expect(matcher.isIgnored("trailing.md")).toBe(true);
+    expect(matcher.isIgnored("comment")).toBe(false);
+  });
+});
+
+describe("mapIgnoreRules", () => {
+  it("moves anchored rules and keeps the rest", () => {
+    const mapper = new PathMapper([
+      { vaultPath: "Work", repoPath: "" },
+      { vaultPath: "Shared", repoPath: "team" },
+    ]);
+    const rules = ["*.tmp", "cache/", "/todo.md", "drafts/*", "!team/keep/", "\\!x/y"];
+
+    expect(mapIgnoreRules(rules, (path) => mapper.toVault(path))).toEqual([
+      "*.tmp",
+      "cache/",
+      "/Work/todo.md",
+      "/Work/drafts/*",
+      "!/Shared/keep/",
+      "/Work/!x/y",
+    ]);
+    expect(mapIgnoreRules(["/other/a.md"], () => null)).toEqual([]);
+  });
+});
@@ -5,6 +5,7 @@ import { DefaultConflictResolver } from "../src/core/conflict-resolver";
 import { LocalVaultIndexer } from "../src/indexers/local-indexer";
 import { GitHubRemoteIndexer } from "../src/indexers/remote-indexer";
 import { PluginStateStore } from "../src/storage/state-store";
+import { syncTargetKey } from "../src/core/sync-target";
 import type { SyncConfig } from "../src/types/sync-types";
 import { FakeApp, FakeVault } from "./helpers/fake-obsidian";
 
@@ -41,6 +42,19 @@ class FakeGitHubClient {
     return { content: entry.content, sha: entry.sha };
   }
 
+  async getBlobSha(path: string, _ref: string) {
+    return this.files.get(path)?.sha ?? null;
+  }
+
+  async getBlob(sha: string) {
+    for (const entry of [...this.files.values(), ...this.blobs.values()]) {
+      if (entry.sha === sha) {
+        return { content: entry.content, sha };
+      }
+    }
+    throw new Error("not found");
+  }
+
   async putFile(path: string, contentBase64: string) {
     this.files.set(path, { content: contentBase64, sha: `sha-${this.shaCounter++}` });
     this.changed.add(path);
@@ -64,10 +78,22 @@ class FakeGitHubClient {
     return index;
   }
 
+  getLastTreeListing() {
+    return { truncated: false, subtreeRequests: 0 };
+  }
+
   async getCommitInfo(_branch: string) {
     return { sha: "head", date: "" };
   }
 
+  async getCommitFiles(sha: string) {
+    return { sha, date: new Date().toISOString(), files: Array.from(this.changed) };
+  }
+
+  async getLastCommitForPath(_path: string, _ref: string) {
+    return null;
+  }
+
   async getCommitTreeSha(_commitSha: string) {
     return "tree-base";
   }
@@ -113,7 +139,14 @@ class FakeGitHubClient {
       filename: path,
       status: this.files.has(path) ? "modified" : "removed",
     }));
-    return { files, headCommitDate: new Date().toISOString() };
+    const date = new Date().toISOString();
+    return {
+      files,
+      commits: [{ sha: "head", date }],
+      totalCommits: 1,
+      headCommitDate: date,
+      complete: true,
+    };
   }
 
   async getRepoInfo() {
@@ -163,7 +196,7 @@ describe("integration sync", () => {
 
     expect(vault.getAbstractFileByPath("remote.md")).not.toBeNull();
     expect(commitSpy).toHaveBeenCalledTimes(1);
-    expect(await stateStore.loadBaseline()).not.toBeNull();
+    expect(await stateStore.loadBaseline(syncTargetKey(makeConfig()))).not.toBeNull();
   });
 
   it("is idempotent when no changes", async () => {
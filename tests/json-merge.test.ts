@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { mergeCanvas, mergeJson } from "../src/core/json-merge";
+
+const canvas = (nodes: object[], edges: object[] = []) =>
+  JSON.stringify({ nodes, edges }, null, "\t");
+
+describe("mergeJson", () => {
+  it("merges objects key by key", () => {
+    const base = '{"a":1,"b":{"c":1,"d":1}}';
+    const local = '{"a":2,"b":{"c":1,"d":1}}';
+    const remote = '{"a":1,"b":{"c":1,"d":2},"e":true}';
+
+    expect(mergeJson(base, local, remote)).toBe('{"a":2,"b":{"c":1,"d":2},"e":true}');
+  });
+
+  it("takes deletions from either side", () => {
+    expect(mergeJson('{"a":1,"b":1}', '{"a":1}', '{"a":1,"b":1,"c":1}')).toBe('{"a":1,"c":1}');
+  });
+
+  it("fails when both sides change the same value", () => {
+    expect(mergeJson('{"a":1}', '{"a":2}', '{"a":3}')).toBeNull();
+    expect(mergeJson("[1]", "[1,2]", "[1,3]")).toBeNull();
+  });
+
+  it("fails on invalid JSON", () => {
+    expect(mergeJson("{}", "{", "{}")).toBeNull();
+  });
+
+  it("keeps the local indentation and trailing newline", () => {
+    const local = '{\n  "a": 2,\n  "b": 1\n}\n';
+    expect(mergeJson('{"a":1,"b":1}', local, '{"a":1,"b":2}')).toBe('{\n  "a": 2,\n  "b": 2\n}\n');
+  });
+});
+
+describe("mergeCanvas", () => {
+  const base = canvas(
+    [
+      { id: "1", type: "text", text: "one", x: 0, y: 0 },
+      { id: "2", type: "text", text: "two", x: 100, y: 0 },
+    ],
+    [{ id: "e1", fromNode: "1", toNode: "2" }]
+  );
+
+  it("merges edits to different nodes and edges by id", () => {
+    const local = canvas(
+      [
+        { id: "1", type: "text", text: "one, edited", x: 0, y: 0 },
+        { id: "2", type: "text", text: "two", x: 100, y: 0 },
+        { id: "3", type: "text", text: "three", x: 200, y: 0 },
+      ],
+      [{ id: "e1", fromNode: "1", toNode: "2" }]
+    );
+    const remote = canvas(
+      [
+        { id: "1", type: "text", text: "one", x: 0, y: 0 },
+        { id: "2", type: "text", text: "two", x: 100, y: 50 },
+        { id: "10", type: "text", text: "ten", x: 0, y: 100 },
+      ],
+      []
+    );
+
+    expect(mergeCanvas(base, local, remote)).toBe(
+      canvas(
+        [
+          { id: "1", type: "text", text: "one, edited", x: 0, y: 0 },
+          { id: "2", type: "text", text: "two", x: 100, y: 50 },
+          { id: "3", type: "text", text: "three", x: 200, y: 0 },
+          { id: "10", type: "text", text: "ten", x: 0, y: 100 },
+        ],
+        []
+      )
+    );
+  });
+
+  it("fails when both sides change the same node property", () => {
+    const local = base.replace('"one"', '"local"');
+    const remote = base.replace('"one"', '"remote"');
+
+    expect(mergeCanvas(base, local, remote)).toBeNull();
+  });
+
+  it("fails when a node is deleted on one side and edited on the other", () => {
+    const local = canvas([{ id: "2", type: "text", text: "two", x: 100, y: 0 }]);
+    const remote = base.replace('"one"', '"remote"');
+
+    expect(mergeCanvas(base, local, remote)).toBeNull();
+  });
+});
@@ -1,9 +1,21 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { LocalVaultIndexer } from "../src/indexers/local-indexer";
+import { VaultChangeTracker } from "../src/indexers/vault-change-tracker";
+import { HashCache } from "../src/storage/hash-cache";
 import { FakeApp, FakeVault } from "./helpers/fake-obsidian";
 
 const toBuffer = (value: string) => Buffer.from(value, "utf8");
 
+const memoryStore = () => {
+  let saved: unknown = null;
+  return {
+    load: async () => saved,
+    save: async (value: unknown) => {
+      saved = value;
+    },
+  };
+};
+
 describe("LocalVaultIndexer", () => {
   it("indexes files under root", async () => {
     const vault = new FakeVault();
@@ -38,4 +50,133 @@ describe("LocalVaultIndexer", () => {
     const index = await indexer.scan("", ["Journal/*.md"]);
     expect(Object.keys(index)).toEqual(["Journal/two.txt"]);
   });
+
+  it("computes the git blob sha", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("hello.txt", toBuffer("hello\n"));
+    const app = new FakeApp(vault);
+    const indexer = new LocalVaultIndexer(app as any);
+
+    const index = await indexer.scan("", []);
+    // Same id as `git hash-object` for a file containing "hello\n".
+    expect(index["hello.txt"].blobSha).toBe("ce013625030ba8dba906f756967f9e9ca394464a");
+  });
+
+  it("rehashes only paths reported by the change tracker", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("one.md", toBuffer("one"));
+    await vault.createBinary("two.md", toBuffer("two"));
+    const app = new FakeApp(vault);
+    const tracker = new VaultChangeTracker(memoryStore() as any);
+    const indexer = new LocalVaultIndexer(app as any);
+    indexer.setChangeTracker(tracker);
+
+    await indexer.scan("", []);
+    await vault.createBinary("three.md", toBuffer("three"));
+    await vault.delete(vault.getAbstractFileByPath("one.md") as any);
+    tracker.markChanged("three.md");
+    tracker.markChanged("one.md");
+
+    const getFiles = vi.spyOn(vault, "getFiles");
+    const readBinary = vi.spyOn(vault, "readBinary");
+    const index = await indexer.scan("", []);
+
+    expect(getFiles).not.toHaveBeenCalled();
+    expect(readBinary).toHaveBeenCalledTimes(1);
+    expect(Object.keys(index).sort()).toEqual(["three.md", "two.md"]);
+  });
+
+  it("falls back to a full scan when requested or when the scope changes", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("Journal/one.md", toBuffer("one"));
+    await vault.createBinary("Other/two.md", toBuffer("two"));
+    const app = new FakeApp(vault);
+    const tracker = new VaultChangeTracker(memoryStore() as any);
+    const indexer = new LocalVaultIndexer(app as any);
+    indexer.setChangeTracker(tracker);
+
+    await indexer.scan("Journal", []);
+    const getFiles = vi.spyOn(vault, "getFiles");
+
+    const widened = await indexer.scan("", []);
+    expect(getFiles).toHaveBeenCalledTimes(1);
+    expect(Object.keys(widened).sort()).toEqual(["Journal/one.md", "Other/two.md"]);
+
+    tracker.requestFullScan();
+    await indexer.scan("", []);
+    expect(getFiles).toHaveBeenCalledTimes(2);
+
+    await indexer.scan("", []);
+    expect(getFiles).toHaveBeenCalledTimes(2);
+  });
+
+  it("picks up files edited while the plugin was not running", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("one.md", toBuffer("one"));
+    await vault.createBinary("two.md", toBuffer("two"));
+    const app = new FakeApp(vault);
+    const store = memoryStore();
+    const first = new LocalVaultIndexer(app as any);
+    first.setChangeTracker(new VaultChangeTracker(store as any));
+    const firstIndex = await first.scan("", []);
+
+    await vault.modifyBinary(vault.getAbstractFileByPath("two.md") as any, toBuffer("edited"));
+    const tracker = new VaultChangeTracker(store as any);
+    await tracker.load();
+    const second = new LocalVaultIndexer(app as any);
+    second.setChangeTracker(tracker);
+    const readBinary = vi.spyOn(vault, "readBinary");
+    const secondIndex = await second.scan("", []);
+
+    expect(readBinary).toHaveBeenCalledTimes(1);
+    expect(secondIndex["one.md"].hash).toBe(firstIndex["one.md"].hash);
+    expect(secondIndex["two.md"].hash).not.toBe(firstIndex["two.md"].hash);
+  });
+
+  it("reuses hashes from the hash cache across indexer instances", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("one.md", toBuffer("one"));
+    await vault.createBinary("two.md", toBuffer("two"));
+    const app = new FakeApp(vault);
+    const store = memoryStore();
+
+    const firstCache = new HashCache(store as any);
+    const first = new LocalVaultIndexer(app as any);
+    first.setHashCache(firstCache);
+    const firstIndex = await first.scan("", []);
+
+    await vault.modifyBinary(vault.getAbstractFileByPath("two.md") as any, toBuffer("changed"));
+    const secondCache = new HashCache(store as any);
+    await secondCache.load();
+    const second = new LocalVaultIndexer(app as any);
+    second.setHashCache(secondCache);
+    const readBinary = vi.spyOn(vault, "readBinary");
+    const secondIndex = await second.scan("", []);
+
+    expect(readBinary).toHaveBeenCalledTimes(1);
+    expect(secondIndex["one.md"].hash).toBe(firstIndex["one.md"].hash);
+    expect(secondIndex["two.md"].hash).not.toBe(firstIndex["two.md"].hash);
+  });
+
+  it("reuses hashes from a baseline entry with matching mtime and size", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("one.md", toBuffer("one"));
+    const app = new FakeApp(vault);
+    const file = vault.getAbstractFileByPath("one.md") as any;
+    const indexer = new LocalVaultIndexer(app as any);
+    indexer.setPreviousBaseline({
+      entries: {
+        "one.md": {
+          path: "one.md",
+          hash: "cached-hash",
+          blobSha: "cached-blob",
+          mtime: file.stat.mtime,
+          size: file.stat.size,
+        },
+      },
+    });
+
+    const index = await indexer.scan("", []);
+    expect(index["one.md"].hash).toBe("cached-hash");
+  });
 });
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMergeDriverRegistry,
+  formatMergeDriverRules,
+  MergeDriverRegistry,
+  parseMergeDriverRules,
+} from "../src/core/merge-drivers";
+import type { MergeDriver } from "../src/types/interfaces";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const mergeWith = async (driver: MergeDriver | null, base: string, local: string, remote: string) => {
+  const { content } = await driver!.merge({
+    path: "file",
+    base: encoder.encode(base),
+    local: encoder.encode(local),
+    remote: encoder.encode(remote),
+  });
+  return content ? decoder.decode(content) : null;
+};
+
+const fixed = (name: string, options: Partial<MergeDriver> = {}): MergeDriver => ({
+  name,
+  merge: () => ({ content: encoder.encode(name) }),
+  ...options,
+});
+
+describe("MergeDriverRegistry", () => {
+  it("finds built-in drivers by extension", () => {
+    const registry = createMergeDriverRegistry();
+
+    expect(registry.find("Notes/a.md")?.name).toBe("note");
+    expect(registry.find("Notes/a.TXT")?.name).toBe("text");
+    expect(registry.find("board.canvas")?.name).toBe("canvas");
+    expect(registry.find("data.json")?.name).toBe("json");
+    expect(registry.find("image.png")).toBeNull();
+  });
+
+  it("prefers rules, then the latest registered driver", () => {
+    const registry = createMergeDriverRegistry();
+    registry.register(fixed("tasks", { patterns: ["Tasks/**"] }));
+
+    expect(registry.find("Tasks/today.md")?.name).toBe("tasks");
+    expect(registry.find("Tasks/today.md", [{ pattern: "*.md", driver: "take-local" }])?.name).toBe(
+      "take-local"
+    );
+    expect(registry.find("Tasks/today.md", [{ pattern: "*.md", driver: "missing" }])?.name).toBe("tasks");
+  });
+
+  it("replaces drivers by name and unregisters them", () => {
+    const registry = new MergeDriverRegistry();
+    registry.register(fixed("custom", { extensions: ["log"] }));
+    const unregister = registry.register(fixed("custom", { extensions: ["csv"] }));
+
+    expect(registry.find("app.log")).toBeNull();
+    expect(registry.find("table.csv")?.name).toBe("custom");
+
+    unregister();
+    expect(registry.names()).toEqual([]);
+  });
+});
+
+describe("built-in merge drivers", () => {
+  const registry = createMergeDriverRegistry();
+
+  it("union keeps the lines both sides added", async () => {
+    const union = registry.get("union");
+
+    expect(await mergeWith(union, "a\n", "a\nlocal\n", "a\nremote\n")).toBe("a\nlocal\nremote\n");
+    expect(await mergeWith(union, "a\nx\nb\n", "A\nx\nb\n", "a\nx\nb\nc\n")).toBe("A\nx\nb\nc\n");
+  });
+
+  it("append-only combines appended sections, earlier first", async () => {
+    const appendOnly = registry.get("append-only")!;
+    const merge = async (base: string, local: string, remote: string, localTime: number, remoteTime: number) => {
+      const { content } = await appendOnly.merge({
+        path: "Journal/log.md",
+        base: encoder.encode(base),
+        local: encoder.encode(local),
+        remote: encoder.encode(remote),
+        localTime,
+        remoteTime,
+      });
+      return content ? decoder.decode(content) : null;
+    };
+
+    expect(await merge("# Log\n", "# Log\n09:00 local\n", "# Log\n10:00 remote\n", 1000, 2000)).toBe(
+      "# Log\n09:00 local\n10:00 remote\n"
+    );
+    expect(await merge("# Log\n", "# Log\n11:00 local", "# Log\n10:00 remote\n", 2000, 1000)).toBe(
+      "# Log\n10:00 remote\n11:00 local"
+    );
+    expect(await merge("# Log\n", "# Log\nlocal", "# Log\nremote\n", 2000, 1000)).toBe(
+      "# Log\nremote\nlocal"
+    );
+    expect(await merge("# Log\n", "# Journal\nlocal\n", "# Log\nremote\n", 1000, 2000)).toBeNull();
+  });
+
+  it("take-local and take-remote pick one side", async () => {
+    expect(await mergeWith(registry.get("take-local"), "a", "local", "remote")).toBe("local");
+    expect(await mergeWith(registry.get("take-remote"), "a", "local", "remote")).toBe("remote");
+  });
+});
+
+describe("merge driver rules", () => {
+  it("parses and formats one rule per line", () => {
+    const rules = parseMergeDriverRules("Logs/** -> union\n\n*.csv -> take-remote\n");
+
+    expect(rules).toEqual([
+      { pattern: "Logs/**", driver: "union" },
+      { pattern: "*.csv", driver: "take-remote" },
+    ]);
+    expect(formatMergeDriverRules(rules!)).toBe("Logs/** -> union\n*.csv -> take-remote");
+    expect(parseMergeDriverRules("Logs/** union")).toBeNull();
+  });
+});
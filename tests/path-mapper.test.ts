@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parsePathMappings, PathMapper } from "../src/core/path-mapper";
+
+describe("PathMapper", () => {
+  it("uses the same paths on both sides without mappings", () => {
+    const mapper = new PathMapper();
+    expect(mapper.toRepo("Journal/a.md")).toBe("Journal/a.md");
+    expect(mapper.toVault("Journal/a.md")).toBe("Journal/a.md");
+  });
+
+  it("translates paths through the most specific mapping", () => {
+    const mapper = new PathMapper([
+      { vaultPath: "Work", repoPath: "notes" },
+      { vaultPath: "Work/Archive/", repoPath: "/archive/" },
+      { vaultPath: "Personal", repoPath: "" },
+    ]);
+
+    expect(mapper.toRepo("Work/todo.md")).toBe("notes/todo.md");
+    expect(mapper.toRepo("Work/Archive/2023.md")).toBe("archive/2023.md");
+    expect(mapper.toRepo("Personal/diary.md")).toBe("diary.md");
+    expect(mapper.toVault("notes/todo.md")).toBe("Work/todo.md");
+    expect(mapper.toVault("archive/2023.md")).toBe("Work/Archive/2023.md");
+    expect(mapper.toVault("diary.md")).toBe("Personal/diary.md");
+  });
+
+  it("leaves paths outside every mapping unmapped", () => {
+    const mapper = new PathMapper([{ vaultPath: "Work", repoPath: "notes" }]);
+    expect(mapper.toRepo("Other/a.md")).toBeNull();
+    expect(mapper.toRepo("Workshop/a.md")).toBeNull();
+    expect(mapper.toVault("README.md")).toBeNull();
+    expect(() => mapper.requireRepo("Other/a.md")).toThrow("No path mapping covers Other/a.md");
+  });
+
+  it("rejects paths that would not map back to the same place", () => {
+    const mapper = new PathMapper([
+      { vaultPath: "A", repoPath: "x" },
+      { vaultPath: "B", repoPath: "x/y" },
+    ]);
+    expect(mapper.toRepo("A/y/file.md")).toBeNull();
+    expect(mapper.toRepo("A/file.md")).toBe("x/file.md");
+    expect(mapper.toVault("x/y/file.md")).toBe("B/file.md");
+  });
+
+  it("parses one mapping per line", () => {
+    expect(parsePathMappings("Work -> notes\n\n -> vault-root\n")).toEqual([
+      { vaultPath: "Work", repoPath: "notes" },
+      { vaultPath: "", repoPath: "vault-root" },
+    ]);
+    expect(parsePathMappings("Work notes")).toBeNull();
+  });
+});
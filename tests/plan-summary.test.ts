@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { formatSize, opPaths, summarizePlan } from "../src/core/plan-summary";
+import type { SyncPlan } from "../src/types/sync-types";
+
+const makePlan = (overrides: Partial<SyncPlan>): SyncPlan => ({
+  target: "api.github.com/o/r@main",
+  baseline: null,
+  ignorePatterns: [],
+  local: {},
+  remote: {},
+  ops: [],
+  conflicts: [],
+  ...overrides,
+});
+
+describe("summarizePlan", () => {
+  it("groups ops by type with counts and sizes", () => {
+    const plan = makePlan({
+      local: {
+        "up.md": { path: "up.md", hash: "h", blobSha: "b", mtime: 1, size: 100 },
+        "both.md": { path: "both.md", hash: "h2", blobSha: "b2", mtime: 1, size: 10 },
+      },
+      remote: {
+        "down.md": { path: "down.md", sha: "s", size: 2048, lastCommitTime: 1 },
+        "down2.md": { path: "down2.md", sha: "s2", size: 1024, lastCommitTime: 1 },
+        "both.md": { path: "both.md", sha: "s3", size: 30, lastCommitTime: 1 },
+      },
+      ops: [
+        { type: "push_new", path: "up.md" },
+        { type: "pull_new", path: "down.md" },
+        { type: "pull_new", path: "down2.md" },
+      ],
+      conflicts: [{ type: "conflict", path: "both.md", reason: "modify-modify" }],
+    });
+
+    const groups = summarizePlan(plan);
+    expect(groups.map((group) => [group.type, group.ops.length, group.size])).toEqual([
+      ["pull_new", 2, 3072],
+      ["push_new", 1, 100],
+      ["conflict", 1, 30],
+    ]);
+  });
+
+  it("returns no groups for an empty plan", () => {
+    expect(summarizePlan(makePlan({}))).toEqual([]);
+  });
+});
+
+describe("opPaths", () => {
+  it("includes both sides of a rename", () => {
+    expect(opPaths({ type: "rename_local", from: "a.md", to: "b.md" })).toEqual(["a.md", "b.md"]);
+    expect(opPaths({ type: "push_delete", path: "c.md" })).toEqual(["c.md"]);
+  });
+});
+
+describe("formatSize", () => {
+  it("picks a readable unit", () => {
+    expect(formatSize(512)).toBe("512 B");
+    expect(formatSize(1536)).toBe("1.5 KB");
+    expect(formatSize(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
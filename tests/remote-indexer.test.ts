@@ -10,6 +10,7 @@ describe("GitHubRemoteIndexer", () => {
   it("falls back to listTree when baseline missing", async () => {
     const client = {
       listTree: vi.fn().mockResolvedValue(listTreeResponse),
+      getLastTreeListing: vi.fn().mockReturnValue({ truncated: false, subtreeRequests: 0 }),
       compareCommits: vi.fn(),
       getFile: vi.fn(),
     };
@@ -31,7 +32,10 @@ describe("GitHubRemoteIndexer", () => {
           { filename: "new.md", status: "added" },
           { filename: "renamed.md", status: "renamed", previous_filename: "old.md" },
         ],
+        commits: [{ sha: "head", date: new Date(1_700_000_000_000).toISOString() }],
+        totalCommits: 1,
         headCommitDate: new Date(1_700_000_000_000).toISOString(),
+        complete: true,
       }),
       getFile: vi.fn().mockResolvedValue({ content: "", sha: "sha-new" }),
     };
@@ -59,6 +63,7 @@ describe("GitHubRemoteIndexer", () => {
   it("falls back to listTree when compare fails", async () => {
     const client = {
       listTree: vi.fn().mockResolvedValue(listTreeResponse),
+      getLastTreeListing: vi.fn().mockReturnValue({ truncated: false, subtreeRequests: 0 }),
       compareCommits: vi.fn().mockRejectedValue(new Error("boom")),
       getFile: vi.fn(),
     };
@@ -74,4 +79,188 @@ describe("GitHubRemoteIndexer", () => {
     expect(client.listTree).toHaveBeenCalledOnce();
     expect(result).toEqual(listTreeResponse);
   });
+
+  it("describes a walked tree listing", async () => {
+    const client = {
+      listTree: vi.fn().mockResolvedValue(listTreeResponse),
+      getLastTreeListing: vi.fn().mockReturnValue({ truncated: true, subtreeRequests: 4 }),
+      compareCommits: vi.fn(),
+      getFile: vi.fn(),
+    };
+
+    const indexer = new GitHubRemoteIndexer(client as any);
+    await indexer.fetchIndex("o", "r", "main", null);
+
+    expect(indexer.describeLastFetch()).toBe(
+      "full tree, recursive listing truncated; walked 4 subtree requests"
+    );
+  });
+
+  it("falls back to listTree when the comparison is incomplete", async () => {
+    const client = {
+      listTree: vi.fn().mockResolvedValue(listTreeResponse),
+      getLastTreeListing: vi.fn().mockReturnValue({ truncated: false, subtreeRequests: 0 }),
+      compareCommits: vi.fn().mockResolvedValue({
+        files: Array.from({ length: 300 }, (_, i) => ({ filename: `f${i}.md`, status: "added" })),
+        commits: [],
+        totalCommits: 400,
+        headCommitDate: new Date(0).toISOString(),
+        complete: false,
+      }),
+      getFile: vi.fn(),
+    };
+
+    const baseline: SyncBaseline = {
+      commitSha: "base",
+      entries: { "a.md": { path: "a.md", sha: "s1" } },
+    };
+
+    const indexer = new GitHubRemoteIndexer(client as any);
+    const result = await indexer.fetchIndex("o", "r", "main", baseline);
+
+    expect(client.listTree).toHaveBeenCalledOnce();
+    expect(result).toEqual(listTreeResponse);
+    expect(indexer.describeLastFetch()).toContain("comparison incomplete (300 files, 0 of 400 commits)");
+  });
+
+  it("attributes each changed file to the newest commit that touched it", async () => {
+    const client = {
+      listTree: vi.fn(),
+      compareCommits: vi.fn().mockResolvedValue({
+        files: [
+          { filename: "a.md", status: "modified", sha: "sa" },
+          { filename: "b.md", status: "added", sha: "sb" },
+        ],
+        commits: [
+          { sha: "c1", date: "2024-01-01T00:00:00Z", author: "alice" },
+          { sha: "c2", date: "2024-01-02T00:00:00Z", author: "bob" },
+        ],
+        totalCommits: 2,
+        headCommitDate: "2024-01-02T00:00:00Z",
+        complete: true,
+      }),
+      getCommitFiles: vi.fn(async (sha: string) =>
+        sha === "c2"
+          ? { sha, date: "2024-01-02T00:00:00Z", author: "bob", files: ["b.md"] }
+          : { sha, date: "2024-01-01T00:00:00Z", author: "alice", files: ["a.md", "b.md"] }
+      ),
+      getFile: vi.fn(),
+    };
+
+    const baseline: SyncBaseline = {
+      commitSha: "base",
+      entries: { "a.md": { path: "a.md", sha: "old" } },
+    };
+
+    const indexer = new GitHubRemoteIndexer(client as any);
+    const result = await indexer.fetchIndex("o", "r", "main", baseline);
+
+    expect(client.getCommitFiles.mock.calls.map((call) => call[0])).toEqual(["c2", "c1"]);
+    expect(result["b.md"]).toMatchObject({
+      lastCommitTime: Date.parse("2024-01-02T00:00:00Z"),
+      lastCommitAuthor: "bob",
+    });
+    expect(result["a.md"]).toMatchObject({
+      lastCommitTime: Date.parse("2024-01-01T00:00:00Z"),
+      lastCommitAuthor: "alice",
+    });
+  });
+
+  it("leaves the commit time unknown for paths no walked commit touched", async () => {
+    const client = {
+      listTree: vi.fn(),
+      compareCommits: vi.fn().mockResolvedValue({
+        files: [
+          { filename: "a.md", status: "modified", sha: "sa" },
+          { filename: "b.md", status: "modified", sha: "sb" },
+        ],
+        commits: [
+          { sha: "c1", date: "2024-01-01T00:00:00Z" },
+          { sha: "c2", date: "2024-01-02T00:00:00Z" },
+        ],
+        totalCommits: 2,
+        headCommitDate: "2024-01-02T00:00:00Z",
+        complete: true,
+      }),
+      getCommitFiles: vi.fn(async (sha: string) => ({
+        sha,
+        date: "2024-01-02T00:00:00Z",
+        author: "bob",
+        files: sha === "c2" ? ["b.md"] : [],
+      })),
+      getLastCommitForPath: vi.fn().mockResolvedValue({
+        sha: "c0",
+        date: "2023-12-01T00:00:00Z",
+        author: "alice",
+      }),
+      getFile: vi.fn(),
+    };
+
+    const indexer = new GitHubRemoteIndexer(client as any);
+    const result = await indexer.fetchIndex("o", "r", "main", { commitSha: "base", entries: {} });
+    expect(result["a.md"]).toMatchObject({ lastCommitTime: 0, lastCommitAuthor: undefined });
+
+    await indexer.resolveLastCommits(result, ["a.md", "b.md"], "main");
+    expect(client.getLastCommitForPath).toHaveBeenCalledOnce();
+    expect(result["a.md"]).toMatchObject({
+      lastCommitTime: Date.parse("2023-12-01T00:00:00Z"),
+      lastCommitAuthor: "alice",
+    });
+    expect(result["b.md"].lastCommitAuthor).toBe("bob");
+  });
+
+  it("resolves unknown commit times per path", async () => {
+    const client = {
+      getLastCommitForPath: vi.fn().mockResolvedValue({
+        sha: "c",
+        date: "2024-03-01T10:00:00Z",
+        author: "carol",
+      }),
+    };
+
+    const remote: RemoteIndex = {
+      "a.md": { path: "a.md", sha: "s1", size: 1, lastCommitTime: 0 },
+      "b.md": { path: "b.md", sha: "s2", size: 1, lastCommitTime: 5 },
+    };
+
+    const indexer = new GitHubRemoteIndexer(client as any);
+    await indexer.resolveLastCommits(remote, ["a.md", "b.md"], "main");
+
+    expect(client.getLastCommitForPath).toHaveBeenCalledOnce();
+    expect(remote["a.md"].lastCommitAuthor).toBe("carol");
+    expect(remote["b.md"].lastCommitTime).toBe(5);
+  });
+
+  it("keys the index by vault path when path mappings are set", async () => {
+    const client = {
+      listTree: vi.fn().mockResolvedValue({
+        "notes/a.md": { path: "notes/a.md", sha: "s1", size: 1, lastCommitTime: 0 },
+        "README.md": { path: "README.md", sha: "s2", size: 1, lastCommitTime: 0 },
+      }),
+      getLastTreeListing: vi.fn().mockReturnValue({ truncated: false, subtreeRequests: 0 }),
+      compareCommits: vi.fn().mockResolvedValue({
+        files: [{ filename: "notes/b.md", status: "added", sha: "s3" }],
+        commits: [{ sha: "head", date: new Date(1_700_000_000_000).toISOString() }],
+        totalCommits: 1,
+        headCommitDate: new Date(1_700_000_000_000).toISOString(),
+        complete: true,
+      }),
+      getFile: vi.fn(),
+    };
+
+    const indexer = new GitHubRemoteIndexer(client as any);
+    indexer.setPathMappings([{ vaultPath: "Work", repoPath: "notes" }]);
+
+    const full = await indexer.fetchIndex("o", "r", "main", null);
+    expect(full).toEqual({
+      "Work/a.md": { path: "Work/a.md", sha: "s1", size: 1, lastCommitTime: 0 },
+    });
+
+    const incremental = await indexer.fetchIndex("o", "r", "main", {
+      commitSha: "base",
+      entries: { "Work/a.md": { path: "Work/a.md", sha: "s1" } },
+    });
+    expect(Object.keys(incremental).sort()).toEqual(["Work/a.md", "Work/b.md"]);
+    expect(incremental["Work/b.md"].path).toBe("Work/b.md");
+  });
 });
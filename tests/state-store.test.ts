@@ -55,4 +55,77 @@ describe("PluginStateStore", () => {
     expect(logs).toHaveLength(500);
     expect(logs[0].timestamp).toBe("100");
   });
+
+  it("keeps baselines, conflicts and logs separate per profile", async () => {
+    const plugin = new FakePlugin();
+    const personal = new PluginStateStore(plugin as any, "personal");
+    const team = new PluginStateStore(plugin as any, "team");
+
+    await personal.saveBaseline({ commitSha: "p", entries: {} });
+    await team.saveBaseline({ commitSha: "t", entries: {} });
+    await team.appendLog({ timestamp: "1", level: "info", message: "team" });
+
+    expect((await personal.loadBaseline())?.commitSha).toBe("p");
+    expect((await team.loadBaseline())?.commitSha).toBe("t");
+    expect(await personal.loadLogs()).toEqual([]);
+    expect(await team.loadLogs()).toHaveLength(1);
+
+    await team.clearProfileState();
+    expect(await team.loadBaseline()).toBeNull();
+    expect((await personal.loadBaseline())?.commitSha).toBe("p");
+  });
+
+  it("migrates single-profile data to the default profile", async () => {
+    const plugin = new FakePlugin();
+    await plugin.saveData({
+      token: "t",
+      owner: "o",
+      repo: "r",
+      branch: "dev",
+      baseline: { commitSha: "legacy", entries: {} },
+      logs: [{ timestamp: "1", level: "info", message: "old" }],
+    });
+    const store = new PluginStateStore(plugin as any);
+
+    expect((await store.loadBaseline())?.commitSha).toBe("legacy");
+    await store.appendLog({ timestamp: "2", level: "info", message: "new" });
+
+    const data = await plugin.loadData();
+    expect(data.baseline).toBeUndefined();
+    expect(data.profileState.default.baselines[""].commitSha).toBe("legacy");
+    expect(data.profileState.default.logs).toHaveLength(2);
+    expect(data.profiles).toEqual([
+      expect.objectContaining({ id: "default", owner: "o", repo: "r", branch: "dev" }),
+    ]);
+  });
+
+  it("keeps one baseline per repository and branch", async () => {
+    const plugin = new FakePlugin();
+    const store = new PluginStateStore(plugin as any);
+
+    await store.saveBaseline({ commitSha: "main", entries: {} }, "api.github.com/o/r@main");
+    await store.saveBaseline({ commitSha: "dev", entries: {} }, "api.github.com/o/r@dev");
+
+    expect((await store.loadBaseline("api.github.com/o/r@main"))?.commitSha).toBe("main");
+    expect((await store.loadBaseline("api.github.com/o/r@dev"))?.commitSha).toBe("dev");
+    expect(await store.loadBaseline("api.github.com/o/other@main")).toBeNull();
+    expect(await store.listBaselineTargets()).toEqual([
+      "api.github.com/o/r@main",
+      "api.github.com/o/r@dev",
+    ]);
+  });
+
+  it("keeps an unkeyed baseline apart until the first keyed save", async () => {
+    const plugin = new FakePlugin();
+    await plugin.saveData({ baseline: { commitSha: "legacy", entries: {} } });
+    const store = new PluginStateStore(plugin as any);
+
+    expect(await store.listBaselineTargets()).toEqual([]);
+    expect(await store.loadBaseline("api.github.com/o/r@main")).toBeNull();
+    expect((await store.loadLegacyBaseline())?.commitSha).toBe("legacy");
+
+    await store.saveBaseline({ commitSha: "next", entries: {} }, "api.github.com/o/r@main");
+    expect(await store.listBaselineTargets()).toEqual(["api.github.com/o/r@main"]);
+    expect(await store.loadLegacyBaseline()).toBeNull();
+  });
 });
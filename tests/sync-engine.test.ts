@@ -1,7 +1,16 @@
 import { describe, expect, it, vi } from "vitest";
 import { DefaultSyncEngine } from "../src/core/sync-engine";
 import { DefaultConflictResolver } from "../src/core/conflict-resolver";
-import type { RemoteIndex, SyncBaseline, SyncConfig, SyncOp } from "../src/types/sync-types";
+import { DefaultSyncPlanner } from "../src/core/sync-planner";
+import { GitHubRemoteIndexer } from "../src/indexers/remote-indexer";
+import { gitBlobSha } from "../src/core/git-blob";
+import type {
+  ConflictRecord,
+  RemoteIndex,
+  SyncBaseline,
+  SyncConfig,
+  SyncOp,
+} from "../src/types/sync-types";
 import { FakeApp, FakeVault } from "./helpers/fake-obsidian";
 
 const makeConfig = (): SyncConfig => ({
@@ -27,6 +36,7 @@ describe("DefaultSyncEngine", () => {
       loadBaseline: vi.fn().mockResolvedValue(null),
       saveBaseline: vi.fn(),
       saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
       appendLog: vi.fn(async (entry: { message: string }) => {
         logs.push(entry.message);
       }),
@@ -104,6 +114,7 @@ describe("DefaultSyncEngine", () => {
       loadBaseline: vi.fn().mockResolvedValue(null),
       saveBaseline: vi.fn(),
       saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
       appendLog: vi.fn(),
     };
 
@@ -160,6 +171,7 @@ describe("DefaultSyncEngine", () => {
       loadBaseline: vi.fn().mockResolvedValue(null),
       saveBaseline: vi.fn(),
       saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
       appendLog: vi.fn(async (entry: { message: string }) => {
         logs.push(entry.message);
       }),
@@ -219,6 +231,7 @@ describe("DefaultSyncEngine", () => {
       loadBaseline: vi.fn().mockResolvedValue(null),
       saveBaseline: vi.fn(),
       saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
       appendLog: vi.fn(),
     };
 
@@ -270,4 +283,867 @@ describe("DefaultSyncEngine", () => {
     expect(hasConflictCopy).toBe(true);
     vi.useRealTimers();
   });
+
+  it("pulls known remote files by blob sha", async () => {
+    const vault = new FakeVault();
+    const app = new FakeApp(vault);
+
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+
+    const remoteIndex: RemoteIndex = {
+      "big.pdf": { path: "big.pdf", sha: "blob-big", size: 5_000_000, lastCommitTime: 0 },
+    };
+
+    const remoteIndexer = {
+      fetchIndex: vi.fn().mockResolvedValue(remoteIndex),
+    };
+
+    const planner = {
+      plan: vi.fn().mockReturnValue({
+        ops: [{ type: "pull_new", path: "big.pdf" } as SyncOp],
+        conflicts: [],
+      }),
+    };
+
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getFile: vi.fn(),
+      getBlob: vi.fn().mockResolvedValue({ content: "Zg==", sha: "blob-big" }),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    await engine.sync(makeConfig());
+
+    expect(gitClient.getBlob).toHaveBeenCalledWith("blob-big");
+    expect(gitClient.getFile).not.toHaveBeenCalled();
+    expect(vault.getAbstractFileByPath("big.pdf")).not.toBeNull();
+  });
+
+  it("applies ignore rules from the remote and local .syncignore files", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary(".syncignore", Buffer.from("!drafts/keep.md\n"));
+    const app = new FakeApp(vault);
+
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndex: RemoteIndex = {
+      ".syncignore": { path: ".syncignore", sha: "ignore-sha", size: 10, lastCommitTime: 0 },
+      "drafts/a.md": { path: "drafts/a.md", sha: "a", size: 1, lastCommitTime: 0 },
+      "drafts/keep.md": { path: "drafts/keep.md", sha: "k", size: 1, lastCommitTime: 0 },
+      "note.md": { path: "note.md", sha: "n", size: 1, lastCommitTime: 0 },
+    };
+    const remoteIndexer = {
+      fetchIndex: vi.fn().mockResolvedValue(remoteIndex),
+    };
+    const planner = {
+      plan: vi.fn().mockReturnValue({ ops: [], conflicts: [] }),
+    };
+    const resolver = {
+      resolve: vi.fn().mockReturnValue({ resolvedOps: [], conflictRecords: [] }),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getBlob: vi.fn().mockResolvedValue({
+        content: Buffer.from("drafts/*\n").toString("base64"),
+        sha: "ignore-sha",
+      }),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      resolver as any,
+      stateStore as any
+    );
+
+    await engine.sync({ ...makeConfig(), ignorePatterns: [".git/"] });
+
+    expect(gitClient.getBlob).toHaveBeenCalledWith("ignore-sha");
+    expect(localIndexer.scan).toHaveBeenCalledWith("", ["drafts/*", "!drafts/keep.md", ".git/"]);
+    expect(planner.plan.mock.calls[0][3]).toEqual({
+      rootPath: "",
+      ignorePatterns: ["drafts/*", "!drafts/keep.md", ".git/"],
+      pathMappings: [],
+    });
+  });
+
+  it("reads the repository's .syncignore at its mapped vault path", async () => {
+    const app = new FakeApp(new FakeVault());
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+      setPathMappings: vi.fn(),
+    };
+    const remoteIndexer = {
+      fetchIndex: vi.fn().mockResolvedValue({
+        "Work/.syncignore": { path: "Work/.syncignore", sha: "ignore-sha", size: 10, lastCommitTime: 0 },
+      }),
+      setPathMappings: vi.fn(),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getBlob: vi.fn().mockResolvedValue({
+        content: Buffer.from("/drafts/\n*.tmp\nnotes/*.bak\n").toString("base64"),
+        sha: "ignore-sha",
+      }),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      { plan: vi.fn().mockReturnValue({ ops: [], conflicts: [] }) } as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    await engine.sync({
+      ...makeConfig(),
+      pathMappings: [
+        { vaultPath: "Work", repoPath: "" },
+        { vaultPath: "Notes", repoPath: "notes" },
+      ],
+    });
+
+    expect(gitClient.getBlob).toHaveBeenCalledWith("ignore-sha");
+    expect(localIndexer.scan).toHaveBeenCalledWith("", ["/Work/drafts/", "*.tmp", "/Notes/*.bak"]);
+  });
+
+  it("pushes and deletes mapped files at their repository paths", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("Work/new.md", new Uint8Array([1]));
+    const app = new FakeApp(vault);
+
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+      setPathMappings: vi.fn(),
+    };
+    const remoteIndexer = {
+      fetchIndex: vi.fn().mockResolvedValue({
+        "Work/old.md": { path: "Work/old.md", sha: "s1", size: 1, lastCommitTime: 0 },
+      }),
+      setPathMappings: vi.fn(),
+    };
+    const planner = {
+      plan: vi.fn().mockReturnValue({
+        ops: [
+          { type: "push_new", path: "Work/new.md" },
+          { type: "push_delete", path: "Work/old.md" },
+        ] as SyncOp[],
+        conflicts: [],
+      }),
+    };
+    const resolver = {
+      resolve: vi.fn().mockReturnValue({ resolvedOps: [], conflictRecords: [] }),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getCommitTreeSha: vi.fn().mockResolvedValue("tree"),
+      createBlob: vi.fn().mockResolvedValue("blob"),
+      createTree: vi.fn().mockResolvedValue("tree-new"),
+      createCommit: vi.fn().mockResolvedValue("commit-new"),
+      updateRef: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      resolver as any,
+      stateStore as any
+    );
+
+    const pathMappings = [{ vaultPath: "Work", repoPath: "notes" }];
+    await engine.sync({ ...makeConfig(), pathMappings });
+
+    expect(localIndexer.setPathMappings).toHaveBeenCalledWith(pathMappings);
+    expect(remoteIndexer.setPathMappings).toHaveBeenCalledWith(pathMappings);
+    expect(gitClient.createTree.mock.calls[0][0].entries).toEqual([
+      { path: "notes/new.md", sha: "blob", mode: "100644", type: "blob" },
+      { path: "notes/old.md", sha: null, mode: "100644", type: "blob" },
+    ]);
+  });
+
+  it("asks how to link a new repository or branch before planning", async () => {
+    const app = new FakeApp(new FakeVault());
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      listBaselineTargets: vi.fn().mockResolvedValue(["api.github.com/o/r@dev"]),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue({}) };
+    const planner = { plan: vi.fn().mockReturnValue({ ops: [], conflicts: [] }) };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "head", date: "" }),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    const cancel = vi.fn().mockResolvedValue(null);
+    await expect(engine.sync({ ...makeConfig(), onTargetChanged: cancel })).rejects.toThrow(
+      "Repository or branch changed"
+    );
+    expect(cancel).toHaveBeenCalledWith(["api.github.com/o/r@dev"], "api.github.com/o/r@main");
+    expect(planner.plan).not.toHaveBeenCalled();
+
+    await engine.sync({ ...makeConfig(), onTargetChanged: vi.fn().mockResolvedValue("adoptRemote") });
+    expect(stateStore.loadBaseline).toHaveBeenCalledWith("api.github.com/o/r@main");
+    expect(planner.plan.mock.calls[0][4]).toBe("adoptRemote");
+    expect(stateStore.saveBaseline.mock.calls[0][1]).toBe("api.github.com/o/r@main");
+  });
+
+  it("uses a legacy baseline only when its commit is on the synced branch", async () => {
+    const app = new FakeApp(new FakeVault());
+    const legacy = { commitSha: "old", entries: {} };
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      loadLegacyBaseline: vi.fn().mockResolvedValue(legacy),
+      saveBaseline: vi.fn(),
+      listBaselineTargets: vi.fn().mockResolvedValue([]),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue({}) };
+    const planner = { plan: vi.fn().mockReturnValue({ ops: [], conflicts: [] }) };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "head", date: "" }),
+      compareCommits: vi.fn().mockResolvedValue({ status: "diverged" }),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    const onTargetChanged = vi.fn().mockResolvedValue("mergeByContent");
+    await engine.sync({ ...makeConfig(), onTargetChanged });
+    expect(gitClient.compareCommits).toHaveBeenCalledWith("old", "main");
+    expect(onTargetChanged).toHaveBeenCalledWith(
+      ["an earlier repository or branch"],
+      "api.github.com/o/r@main"
+    );
+    expect(planner.plan.mock.calls[0][2]).toBeNull();
+    expect(planner.plan.mock.calls[0][4]).toBe("mergeByContent");
+
+    gitClient.compareCommits.mockResolvedValue({ status: "ahead" });
+    onTargetChanged.mockClear();
+    await engine.sync({ ...makeConfig(), onTargetChanged });
+    expect(onTargetChanged).not.toHaveBeenCalled();
+    expect(planner.plan.mock.calls[1][2]).toBe(legacy);
+    expect(planner.plan.mock.calls[1][4]).toBeUndefined();
+  });
+
+  it("asks which side to trust before planning a first sync", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("local.md", new Uint8Array([1]));
+    const app = new FakeApp(vault);
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localEntry = (path: string, blobSha: string) => ({ path, hash: blobSha, blobSha, mtime: 1, size: 1 });
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({
+        "same.md": localEntry("same.md", "blob-same"),
+        "both.md": localEntry("both.md", "blob-local"),
+        "local.md": localEntry("local.md", "blob-only-local"),
+      }),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndex: RemoteIndex = {
+      "same.md": { path: "same.md", sha: "blob-same", size: 1, lastCommitTime: 0 },
+      "both.md": { path: "both.md", sha: "blob-remote", size: 1, lastCommitTime: 0 },
+      "remote.md": { path: "remote.md", sha: "blob-new", size: 1, lastCommitTime: 0 },
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue(remoteIndex) };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getBlob: vi.fn().mockResolvedValue({ content: "Zg==", sha: "blob" }),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      new DefaultSyncPlanner(),
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    const cancel = vi.fn().mockResolvedValue(null);
+    await expect(engine.planSync({ ...makeConfig(), onFirstSync: cancel })).rejects.toThrow(
+      "First sync cancelled."
+    );
+    expect(cancel).toHaveBeenCalledWith({
+      identical: 1,
+      localOnly: ["local.md"],
+      remoteOnly: ["remote.md"],
+      differing: ["both.md"],
+    });
+
+    const pushPlan = await engine.planSync({
+      ...makeConfig(),
+      onFirstSync: vi.fn().mockResolvedValue("pushLocal"),
+    });
+    expect(pushPlan.conflicts).toEqual([]);
+    expect(pushPlan.ops).toEqual(
+      expect.arrayContaining([
+        { type: "push_update", path: "both.md" },
+        { type: "push_new", path: "local.md" },
+        { type: "push_delete", path: "remote.md" },
+      ])
+    );
+    expect(gitClient.getBlob).not.toHaveBeenCalled();
+    expect(stateStore.saveBaseline).not.toHaveBeenCalled();
+
+    await engine.sync({
+      ...makeConfig(),
+      conflictPolicy: "manual",
+      onFirstSync: vi.fn().mockResolvedValue("adoptRemote"),
+    });
+    expect(gitClient.getBlob).toHaveBeenCalledWith("blob-remote");
+    expect(gitClient.getBlob).toHaveBeenCalledWith("blob-new");
+    expect(vault.getAbstractFileByPath("local.md")).toBeNull();
+    expect(stateStore.saveBaseline).toHaveBeenCalled();
+  });
+
+  it("keeps both versions of differing files when a first sync keeps both", async () => {
+    const app = new FakeApp(new FakeVault());
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue(null),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({
+        "both.md": { path: "both.md", hash: "blob-local", blobSha: "blob-local", mtime: 1, size: 1 },
+      }),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndexer = {
+      fetchIndex: vi.fn().mockResolvedValue({
+        "both.md": { path: "both.md", sha: "blob-remote", size: 1, lastCommitTime: 0 },
+      }),
+    };
+    const resolver = new DefaultConflictResolver();
+    const resolve = vi.spyOn(resolver, "resolve").mockReturnValue({ resolvedOps: [], conflictRecords: [] });
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      { getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }) } as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      new DefaultSyncPlanner(),
+      resolver as any,
+      stateStore as any
+    );
+
+    const plan = await engine.planSync({
+      ...makeConfig(),
+      conflictPolicy: "manual",
+      onFirstSync: vi.fn().mockResolvedValue("keepBoth"),
+    });
+    expect(plan.firstSyncPolicy).toBe("keepBoth");
+
+    await engine.executePlan(plan, { ...makeConfig(), conflictPolicy: "manual" });
+    expect(resolve.mock.calls[0][1]).toBe("keepBoth");
+  });
+
+  it("executes an approved subset of a previewed plan and plans the rest again", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("skipped.md", new TextEncoder().encode("old"));
+    const app = new FakeApp(vault);
+    const read = (path: string) => new TextDecoder().decode(vault.files.get(path)?.data);
+    let savedBaseline: SyncBaseline = {
+      commitSha: "base",
+      entries: { "skipped.md": { path: "skipped.md", hash: "old", sha: "blob-old" } },
+    };
+    const stateStore = {
+      loadBaseline: vi.fn(async () => savedBaseline),
+      saveBaseline: vi.fn(async (baseline: SyncBaseline) => {
+        savedBaseline = baseline;
+      }),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn(async () =>
+        Object.fromEntries(
+          [...vault.files.keys()].map((path) => [
+            path,
+            { path, hash: read(path), blobSha: `local-${path}`, mtime: 1, size: 1 },
+          ])
+        )
+      ),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndex: RemoteIndex = {
+      "wanted.md": { path: "wanted.md", sha: "blob-wanted", size: 1, lastCommitTime: 0 },
+      "skipped.md": { path: "skipped.md", sha: "blob-new", size: 1, lastCommitTime: 0 },
+    };
+    const encode = (text: string) => Buffer.from(text).toString("base64");
+    const blobs: Record<string, string> = { "blob-wanted": encode("wanted"), "blob-new": encode("new") };
+    // Only a compare from the old commit lists the remote changes.
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "head", date: "" }),
+      getBlob: vi.fn(async (sha: string) => ({ content: blobs[sha], sha })),
+      listTree: vi.fn().mockResolvedValue(remoteIndex),
+      getLastTreeListing: vi.fn().mockReturnValue(null),
+      compareCommits: vi.fn(async (from: string) => ({
+        files:
+          from === "base"
+            ? [
+                { filename: "wanted.md", status: "added", sha: "blob-wanted" },
+                { filename: "skipped.md", status: "modified", sha: "blob-new" },
+              ]
+            : [],
+        commits: [],
+        totalCommits: 0,
+        headCommitDate: "",
+        complete: true,
+      })),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      new GitHubRemoteIndexer(gitClient as any),
+      new DefaultSyncPlanner(),
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    const plan = await engine.planSync(makeConfig());
+    const wanted: SyncOp = { type: "pull_new", path: "wanted.md" };
+    expect(plan.ops).toEqual(
+      expect.arrayContaining([wanted, { type: "pull_update", path: "skipped.md" }])
+    );
+    expect(gitClient.getBlob).not.toHaveBeenCalled();
+
+    await engine.executePlan(plan, makeConfig(), plan.ops.filter((op) => op.type === "pull_new"));
+    expect(gitClient.getBlob).toHaveBeenCalledTimes(1);
+    expect(read("wanted.md")).toBe("wanted");
+    expect(read("skipped.md")).toBe("old");
+    expect(savedBaseline.commitSha).toBe("base");
+    expect(savedBaseline.entries["wanted.md"].sha).toBe("blob-wanted");
+    expect(savedBaseline.entries["skipped.md"].sha).toBe("blob-old");
+
+    await engine.sync(makeConfig());
+    expect(read("skipped.md")).toBe("new");
+    expect(savedBaseline.commitSha).toBe("head");
+  });
+
+  it("merges text conflicts with the baseline version and pushes the result", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("note.md", new TextEncoder().encode("local\n-\nb\n"));
+    const app = new FakeApp(vault);
+    const encode = (text: string) => Buffer.from(text).toString("base64");
+
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue({
+        commitSha: "base",
+        entries: { "note.md": { path: "note.md", sha: "blob-base" } },
+      }),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndex: RemoteIndex = {
+      "note.md": { path: "note.md", sha: "blob-remote", size: 1, lastCommitTime: 0 },
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue(remoteIndex) };
+    const planner = {
+      plan: vi.fn().mockReturnValue({
+        ops: [],
+        conflicts: [{ type: "conflict", path: "note.md", reason: "modify-modify" }],
+      }),
+    };
+    const blobs: Record<string, string> = {
+      "blob-base": encode("a\n-\nb\n"),
+      "blob-remote": encode("a\n-\nremote\n"),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getCommitTreeSha: vi.fn().mockResolvedValue("tree"),
+      getBlob: vi.fn(async (sha: string) => ({ content: blobs[sha], sha })),
+      createBlob: vi.fn().mockResolvedValue("blob-merged"),
+      createTree: vi.fn().mockResolvedValue("tree-new"),
+      createCommit: vi.fn().mockResolvedValue("commit-new"),
+      updateRef: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    await engine.sync({ ...makeConfig(), conflictPolicy: "keepBoth" });
+
+    const merged = "local\n-\nremote\n";
+    expect(new TextDecoder().decode(vault.files.get("note.md")?.data)).toBe(merged);
+    expect(gitClient.createBlob).toHaveBeenCalledWith(encode(merged));
+    expect(stateStore.saveConflicts).toHaveBeenCalledWith([]);
+    expect(Array.from(vault.files.keys())).toEqual(["note.md"]);
+  });
+
+  it("writes a merge that equals the remote version to the vault without pushing it", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("data.csv", new TextEncoder().encode("local\n"));
+    const app = new FakeApp(vault);
+    const encode = (text: string) => Buffer.from(text).toString("base64");
+
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue({
+        commitSha: "base",
+        entries: { "data.csv": { path: "data.csv", sha: "blob-base" } },
+      }),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteSha = await gitBlobSha(new TextEncoder().encode("remote\n"));
+    const remoteIndex: RemoteIndex = {
+      "data.csv": { path: "data.csv", sha: remoteSha, size: 7, lastCommitTime: 0 },
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue(remoteIndex) };
+    const planner = {
+      plan: vi.fn().mockReturnValue({
+        ops: [],
+        conflicts: [{ type: "conflict", path: "data.csv", reason: "modify-modify" }],
+      }),
+    };
+    const blobs: Record<string, string> = {
+      "blob-base": encode("base\n"),
+      [remoteSha]: encode("remote\n"),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getBlob: vi.fn(async (sha: string) => ({ content: blobs[sha], sha })),
+      createBlob: vi.fn(),
+      createTree: vi.fn(),
+      createCommit: vi.fn(),
+      updateRef: vi.fn(),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    await engine.sync({
+      ...makeConfig(),
+      mergeDriverRules: [{ pattern: "*.csv", driver: "take-remote" }],
+    });
+
+    expect(new TextDecoder().decode(vault.files.get("data.csv")?.data)).toBe("remote\n");
+    expect(gitClient.createBlob).not.toHaveBeenCalled();
+    expect(gitClient.createCommit).not.toHaveBeenCalled();
+    expect(stateStore.saveConflicts).toHaveBeenCalledWith([]);
+  });
+
+  it("writes conflict markers and keeps the file from being pushed until they are resolved", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("note.md", new TextEncoder().encode("a\nlocal\n"));
+    const app = new FakeApp(vault);
+    const encode = (text: string) => Buffer.from(text).toString("base64");
+
+    let savedConflicts: ConflictRecord[] = [];
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue({
+        commitSha: "base",
+        entries: { "note.md": { path: "note.md", sha: "blob-base" } },
+      }),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(async (records: ConflictRecord[]) => {
+        savedConflicts = records;
+      }),
+      loadConflicts: vi.fn(async () => savedConflicts),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndex: RemoteIndex = {
+      "note.md": { path: "note.md", sha: "blob-remote", size: 1, lastCommitTime: 0 },
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue(remoteIndex) };
+    const planner = {
+      plan: vi
+        .fn()
+        .mockReturnValueOnce({
+          ops: [],
+          conflicts: [{ type: "conflict", path: "note.md", reason: "modify-modify" }],
+        })
+        .mockReturnValue({ ops: [{ type: "push_update", path: "note.md" }], conflicts: [] }),
+    };
+    const blobs: Record<string, string> = {
+      "blob-base": encode("a\nb\n"),
+      "blob-remote": encode("a\nremote\n"),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getBlob: vi.fn(async (sha: string) => ({ content: blobs[sha], sha })),
+      createBlob: vi.fn(),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    await engine.sync({ ...makeConfig(), conflictPolicy: "markers" });
+
+    expect(new TextDecoder().decode(vault.files.get("note.md")?.data)).toBe(
+      "a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\n"
+    );
+    expect(savedConflicts).toEqual([expect.objectContaining({ path: "note.md", policy: "markers" })]);
+
+    await engine.sync({ ...makeConfig(), conflictPolicy: "markers" });
+
+    expect(gitClient.createBlob).not.toHaveBeenCalled();
+    expect(savedConflicts).toEqual([expect.objectContaining({ path: "note.md", policy: "markers" })]);
+    const baseline = stateStore.saveBaseline.mock.calls[1][0] as SyncBaseline;
+    expect(baseline.entries["note.md"].sha).toBe("blob-base");
+  });
+
+  it("syncs a file that quotes conflict markers when it has no markers conflict", async () => {
+    const vault = new FakeVault();
+    const quoted = "Git writes:\n<<<<<<< ours\nmine\n=======\ntheirs\n>>>>>>> theirs\n";
+    await vault.createBinary("git-notes.md", new TextEncoder().encode(quoted));
+    const app = new FakeApp(vault);
+
+    const stateStore = {
+      loadBaseline: vi.fn().mockResolvedValue({ commitSha: "base", entries: {} }),
+      saveBaseline: vi.fn(),
+      saveConflicts: vi.fn(),
+      loadConflicts: vi.fn().mockResolvedValue([]),
+      appendLog: vi.fn(),
+    };
+    const localIndexer = {
+      scan: vi.fn().mockResolvedValue({}),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    const remoteIndexer = { fetchIndex: vi.fn().mockResolvedValue({}) };
+    const planner = {
+      plan: vi.fn().mockReturnValue({
+        ops: [{ type: "push_update", path: "git-notes.md" }] as SyncOp[],
+        conflicts: [],
+      }),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getCommitTreeSha: vi.fn().mockResolvedValue("tree"),
+      createBlob: vi.fn().mockResolvedValue("blob"),
+      createTree: vi.fn().mockResolvedValue("tree-new"),
+      createCommit: vi.fn().mockResolvedValue("commit-new"),
+      updateRef: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      planner as any,
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+
+    await engine.sync({ ...makeConfig(), conflictPolicy: "markers" });
+
+    expect(gitClient.createBlob).toHaveBeenCalledWith(Buffer.from(quoted).toString("base64"));
+  });
+
+  it("keeps remote changes from overwriting a file with unresolved conflict markers", async () => {
+    const vault = new FakeVault();
+    await vault.createBinary("note.md", new TextEncoder().encode("a\nlocal\n"));
+    const app = new FakeApp(vault);
+    const encode = (text: string) => Buffer.from(text).toString("base64");
+    const read = () => new TextDecoder().decode(vault.files.get("note.md")?.data);
+
+    let savedBaseline: SyncBaseline = {
+      commitSha: "base",
+      entries: { "note.md": { path: "note.md", hash: "a\nb\n", sha: "blob-base" } },
+    };
+    let savedConflicts: ConflictRecord[] = [];
+    const stateStore = {
+      loadBaseline: vi.fn(async () => savedBaseline),
+      saveBaseline: vi.fn(async (baseline: SyncBaseline) => {
+        savedBaseline = baseline;
+      }),
+      saveConflicts: vi.fn(async (records: ConflictRecord[]) => {
+        savedConflicts = records;
+      }),
+      loadConflicts: vi.fn(async () => savedConflicts),
+      appendLog: vi.fn(),
+    };
+    // Hashes are the file content, so the planner sees exactly what the vault holds.
+    const localIndexer = {
+      scan: vi.fn(async () => ({
+        "note.md": { path: "note.md", hash: read(), blobSha: "local", mtime: 1, size: 1 },
+      })),
+      setPreviousBaseline: vi.fn(),
+      setMaxFileSizeMB: vi.fn(),
+    };
+    let remoteIndex: RemoteIndex = {
+      "note.md": { path: "note.md", sha: "blob-remote", size: 1, lastCommitTime: 0 },
+    };
+    const remoteIndexer = { fetchIndex: vi.fn(async () => remoteIndex) };
+    const blobs: Record<string, string> = {
+      "blob-base": encode("a\nb\n"),
+      "blob-remote": encode("a\nremote\n"),
+      "blob-remote-2": encode("a\nremote again\n"),
+    };
+    const gitClient = {
+      getCommitInfo: vi.fn().mockResolvedValue({ sha: "h", date: "" }),
+      getBlob: vi.fn(async (sha: string) => ({ content: blobs[sha], sha })),
+      createBlob: vi.fn(),
+    };
+
+    const engine = new DefaultSyncEngine(
+      app as any,
+      gitClient as any,
+      localIndexer as any,
+      remoteIndexer as any,
+      new DefaultSyncPlanner(),
+      new DefaultConflictResolver() as any,
+      stateStore as any
+    );
+    const config = { ...makeConfig(), conflictPolicy: "markers" as const };
+
+    await engine.sync(config);
+    const marked = "a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\n";
+    expect(read()).toBe(marked);
+
+    remoteIndex = {
+      "note.md": { path: "note.md", sha: "blob-remote-2", size: 1, lastCommitTime: 0 },
+    };
+    await engine.sync(config);
+
+    expect(read()).toBe(marked);
+    expect(savedConflicts).toEqual([expect.objectContaining({ path: "note.md", policy: "markers" })]);
+    expect(savedBaseline.entries["note.md"].sha).toBe("blob-remote");
+  });
 });
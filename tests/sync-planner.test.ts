@@ -9,9 +9,10 @@ const makeBaseline = (entries: SyncBaseline["entries"], commitSha = "base") => (
   entries,
 });
 
-const localEntry = (path: string, hash: string) => ({
+const localEntry = (path: string, hash: string, blobSha = `blob-${hash}`) => ({
   path,
   hash,
+  blobSha,
   mtime: 1,
   size: 10,
 });
@@ -168,4 +169,128 @@ describe("DefaultSyncPlanner", () => {
       { type: "conflict", path: "gone.md", reason: "local-missing-remote" },
     ]);
   });
+
+  it("ignores unknown remote commit times", () => {
+    const local: LocalIndex = { "j.md": localEntry("j.md", "h1") };
+    const remote: RemoteIndex = { "j.md": { ...remoteEntry("j.md", "s1"), lastCommitTime: 0 } };
+    const baseline = makeBaseline({
+      "j.md": { path: "j.md", hash: "h1", sha: "s1", lastCommitTime: 1_700_000_000_000 },
+    });
+
+    const result = planner.plan(local, remote, baseline);
+    expect(result.ops).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("treats identical content as in sync without a baseline", () => {
+    const local: LocalIndex = { "k.md": localEntry("k.md", "h1", "same-blob") };
+    const remote: RemoteIndex = { "k.md": remoteEntry("k.md", "same-blob") };
+
+    const result = planner.plan(local, remote, null);
+    expect(result.ops).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("does not conflict when both sides changed to the same content", () => {
+    const local: LocalIndex = { "l.md": localEntry("l.md", "h2", "s2") };
+    const remote: RemoteIndex = { "l.md": remoteEntry("l.md", "s2") };
+    const baseline = makeBaseline({
+      "l.md": { path: "l.md", hash: "h1", sha: "s1" },
+    });
+
+    const result = planner.plan(local, remote, baseline);
+    expect(result.ops).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("never plans ops for ignored paths on either side", () => {
+    const local: LocalIndex = {
+      "cache/local.bin": localEntry("cache/local.bin", "h1"),
+      "cache/changed.bin": localEntry("cache/changed.bin", "h2-new"),
+      "note.tmp": localEntry("note.tmp", "h3"),
+    };
+    const remote: RemoteIndex = {
+      "cache/remote.bin": remoteEntry("cache/remote.bin", "s1"),
+      "cache/changed.bin": remoteEntry("cache/changed.bin", "s2-new"),
+      "deep/note.tmp": remoteEntry("deep/note.tmp", "s3"),
+    };
+    const baseline = makeBaseline({
+      "cache/changed.bin": { path: "cache/changed.bin", hash: "h2", blobSha: "b2", sha: "s2" },
+      "cache/deleted.bin": { path: "cache/deleted.bin", hash: "h4", blobSha: "b4", sha: "s4" },
+    });
+
+    const result = planner.plan(local, remote, baseline, {
+      rootPath: "",
+      ignorePatterns: ["cache/", "*.tmp"],
+    });
+    expect(result.ops).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("keeps re-included paths in scope", () => {
+    const local: LocalIndex = { "cache/keep.md": localEntry("cache/keep.md", "h1") };
+    const remote: RemoteIndex = { "cache/pull.md": remoteEntry("cache/pull.md", "s1") };
+
+    const result = planner.plan(local, remote, null, {
+      rootPath: "",
+      ignorePatterns: ["cache/*", "!*.md"],
+    });
+    expect(result.ops).toEqual([
+      { type: "push_new", path: "cache/keep.md" },
+      { type: "pull_new", path: "cache/pull.md" },
+    ]);
+  });
+
+  it("only plans paths under the root path", () => {
+    const local: LocalIndex = { "Other/local.md": localEntry("Other/local.md", "h1") };
+    const remote: RemoteIndex = {
+      "Journal/a.md": remoteEntry("Journal/a.md", "s1"),
+      "Other/remote.md": remoteEntry("Other/remote.md", "s2"),
+    };
+    const baseline = makeBaseline({
+      "Other/gone.md": { path: "Other/gone.md", hash: "h3", blobSha: "b3", sha: "s3" },
+    });
+
+    const result = planner.plan(local, remote, baseline, { rootPath: "Journal", ignorePatterns: [] });
+    expect(result.ops).toEqual([{ type: "pull_new", path: "Journal/a.md" }]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("makes the vault match the remote when adopting the remote", () => {
+    const local: LocalIndex = {
+      "local.md": localEntry("local.md", "h1"),
+      "both.md": localEntry("both.md", "h2"),
+    };
+    const remote: RemoteIndex = {
+      "remote.md": remoteEntry("remote.md", "s1"),
+      "both.md": remoteEntry("both.md", "s2"),
+    };
+
+    const result = planner.plan(local, remote, null, undefined, "adoptRemote");
+    expect(result.ops).toEqual([
+      { type: "pull_delete", path: "local.md" },
+      { type: "pull_update", path: "both.md" },
+      { type: "pull_new", path: "remote.md" },
+    ]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("makes the remote match the vault when pushing local files", () => {
+    const local: LocalIndex = {
+      "local.md": localEntry("local.md", "h1"),
+      "both.md": localEntry("both.md", "h2"),
+    };
+    const remote: RemoteIndex = {
+      "remote.md": remoteEntry("remote.md", "s1"),
+      "both.md": remoteEntry("both.md", "s2"),
+    };
+
+    const result = planner.plan(local, remote, null, undefined, "pushLocal");
+    expect(result.ops).toEqual([
+      { type: "push_new", path: "local.md" },
+      { type: "push_update", path: "both.md" },
+      { type: "push_delete", path: "remote.md" },
+    ]);
+    expect(result.conflicts).toEqual([]);
+  });
 });
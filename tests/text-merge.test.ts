@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasConflictMarkers,
+  isTextPath,
+  mergeLines,
+  mergeText,
+  mergeWithMarkers,
+  splitLines,
+} from "../src/core/text-merge";
+
+describe("mergeText", () => {
+  const base = "# Title\n\nfirst\nsecond\nthird\n";
+
+  it("combines edits to different lines", () => {
+    const local = "# Title\n\nfirst, edited locally\nsecond\nthird\n";
+    const remote = "# Title\n\nfirst\nsecond\nthird\nfourth from remote\n";
+
+    expect(mergeText(base, local, remote)).toBe(
+      "# Title\n\nfirst, edited locally\nsecond\nthird\nfourth from remote\n"
+    );
+  });
+
+  it("keeps identical edits once", () => {
+    const edited = "# Title\n\nfirst\nsecond!\nthird\n";
+    expect(mergeText(base, edited, edited)).toBe(edited);
+  });
+
+  it("takes deletions from either side", () => {
+    const local = "# Title\n\nfirst\nthird\n";
+    const remote = "# New title\n\nfirst\nsecond\nthird\n";
+    expect(mergeText(base, local, remote)).toBe("# New title\n\nfirst\nthird\n");
+  });
+
+  it("returns null when both sides change the same lines", () => {
+    const local = "# Title\n\nfirst\nlocal\nthird\n";
+    const remote = "# Title\n\nfirst\nremote\nthird\n";
+    expect(mergeText(base, local, remote)).toBeNull();
+  });
+
+  it("returns null when both sides insert different lines at the same place", () => {
+    expect(mergeText(base, `${base}local\n`, `${base}remote\n`)).toBeNull();
+  });
+});
+
+describe("mergeLines", () => {
+  it("reports the conflicting region with each side", () => {
+    const chunks = mergeLines(["a\n", "b\n", "c\n"], ["a\n", "L\n", "c\n"], ["a\n", "R\n", "c\n"]);
+    expect(chunks).toEqual([
+      { kind: "resolved", lines: ["a\n"] },
+      { kind: "conflict", base: ["b\n"], local: ["L\n"], remote: ["R\n"] },
+      { kind: "resolved", lines: ["c\n"] },
+    ]);
+  });
+});
+
+describe("splitLines", () => {
+  it("keeps line endings so lines join back to the original", () => {
+    expect(splitLines("a\r\nb\nc")).toEqual(["a\r\n", "b\n", "c"]);
+    expect(splitLines("")).toEqual([]);
+  });
+});
+
+describe("isTextPath", () => {
+  it("accepts notes and plain text only", () => {
+    expect(isTextPath("Daily/2024-01-01.md")).toBe(true);
+    expect(isTextPath("notes/todo.TXT")).toBe(true);
+    expect(isTextPath("board.canvas")).toBe(false);
+    expect(isTextPath("image.png")).toBe(false);
+    expect(isTextPath(".md")).toBe(false);
+  });
+});
+
+describe("mergeWithMarkers", () => {
+  it("wraps only the overlapping hunks in markers", () => {
+    const merged = mergeWithMarkers("a\nb\nc\nd\n", "A\nb\nL\nd\n", "a\nb\nR\nd\n");
+    expect(merged).toBe("A\nb\n<<<<<<< local\nL\n=======\nR\n>>>>>>> remote\nd\n");
+    expect(hasConflictMarkers(merged)).toBe(true);
+  });
+
+  it("marks the whole file without an ancestor", () => {
+    expect(mergeWithMarkers(null, "local", "remote\n")).toBe(
+      "<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\n"
+    );
+  });
+});
+
+describe("hasConflictMarkers", () => {
+  it("needs both opening and closing markers at line starts", () => {
+    expect(hasConflictMarkers("<<<<<<< local\r\nx\r\n=======\r\n>>>>>>> remote\r\n")).toBe(true);
+    expect(hasConflictMarkers("<<<<<<< local\nonly the start\n")).toBe(false);
+    expect(hasConflictMarkers("quote: <<<<<<< and >>>>>>>\n")).toBe(false);
+  });
+});
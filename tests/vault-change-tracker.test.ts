@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { VaultChangeTracker } from "../src/indexers/vault-change-tracker";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const memoryStore = (initial: unknown = null) => {
+  let saved: unknown = initial;
+  return {
+    load: async () => saved,
+    save: async (value: unknown) => {
+      saved = value;
+    },
+    get saved() {
+      return saved;
+    },
+  };
+};
+
+describe("VaultChangeTracker", () => {
+  it("requires a full scan before the first commit", () => {
+    const tracker = new VaultChangeTracker(memoryStore() as any);
+    expect(tracker.getIncrementalBase("scope")).toBeNull();
+  });
+
+  it("returns dirty paths after a full scan and keeps events that arrive mid-scan", async () => {
+    const tracker = new VaultChangeTracker(memoryStore() as any);
+    await tracker.commit("scope", {}, { dirty: [], fullScan: true }, 1000);
+    tracker.markChanged("a.md");
+    tracker.markRenamed("b.md", "c.md");
+
+    const base = tracker.getIncrementalBase("scope", 2000);
+    expect(base?.dirty.sort()).toEqual(["a.md", "b.md", "c.md"]);
+
+    tracker.markChanged("d.md");
+    await tracker.commit("scope", {}, { dirty: base!.dirty }, 3000);
+    expect(tracker.getIncrementalBase("scope", 4000)?.dirty).toEqual(["d.md"]);
+  });
+
+  it("keeps events that arrive during a full scan", async () => {
+    const tracker = new VaultChangeTracker(memoryStore() as any);
+    tracker.markChanged("a.md");
+    const dirty = tracker.getDirty();
+
+    tracker.markChanged("b.md");
+    await tracker.commit("scope", {}, { dirty, fullScan: true }, 1000);
+    expect(tracker.getIncrementalBase("scope", 2000)?.dirty).toEqual(["b.md"]);
+  });
+
+  it("asks for a full scan once the interval has passed", async () => {
+    const tracker = new VaultChangeTracker(memoryStore() as any);
+    tracker.setFullScanIntervalHours(2);
+    await tracker.commit("scope", {}, { dirty: [], fullScan: true }, 0);
+
+    expect(tracker.getIncrementalBase("scope", HOUR_MS)).not.toBeNull();
+    expect(tracker.getIncrementalBase("scope", 2 * HOUR_MS)).toBeNull();
+    expect(tracker.getIncrementalBase("other", HOUR_MS)).toBeNull();
+  });
+
+  it("restores the persisted index but requires a full scan after loading", async () => {
+    const store = memoryStore();
+    const first = new VaultChangeTracker(store as any);
+    const entries = { "a.md": { path: "a.md", hash: "h", blobSha: "b", mtime: 1, size: 1 } };
+    await first.commit("scope", entries, { dirty: [], fullScan: true }, 1000);
+
+    const second = new VaultChangeTracker(store as any);
+    await second.load();
+    expect(second.getEntries()).toEqual(entries);
+    expect(second.getIncrementalBase("scope", 2000)).toBeNull();
+
+    await second.commit("scope", entries, { dirty: [], fullScan: true }, 2000);
+    expect(second.getIncrementalBase("scope", 3000)).not.toBeNull();
+  });
+
+  it("writes the index only when a scan commits", async () => {
+    const store = memoryStore();
+    const tracker = new VaultChangeTracker(store as any);
+    await tracker.commit("scope", {}, { dirty: [], fullScan: true }, 1000);
+    const committed = store.saved;
+
+    tracker.markChanged("a.md");
+    tracker.markRenamed("b.md", "c.md");
+    expect(store.saved).toBe(committed);
+  });
+});